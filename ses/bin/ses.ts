@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+import * as cdk from 'aws-cdk-lib';
+import { SesStack } from '../lib/ses-stack';
+
+const app = new cdk.App();
+
+// The sender and notification addresses are passed as context, for example `cdk deploy -c senderEmail=me@example.com`
+const senderEmail = app.node.tryGetContext('senderEmail');
+if (!senderEmail) {
+  throw new Error('The senderEmail context value is required, for example: cdk deploy -c senderEmail=me@example.com');
+}
+const notificationEmail = app.node.tryGetContext('notificationEmail');
+
+new SesStack(app, 'SesStack', {
+  senderEmail,
+  notificationEmails: notificationEmail ? [notificationEmail] : [],
+  configurationSetName: app.node.tryGetContext('configurationSetName'),
+  topicName: app.node.tryGetContext('topicName'),
+});
@@ -0,0 +1,153 @@
+import { CloudFormationClient, DescribeStacksCommand } from '@aws-sdk/client-cloudformation';
+import {
+    SESClient,
+    DescribeConfigurationSetCommand,
+    GetIdentityVerificationAttributesCommand,
+    ListIdentitiesCommand,
+    SendEmailCommand
+} from '@aws-sdk/client-ses';
+import {
+    SNSClient,
+    ConfirmSubscriptionCommand,
+    GetSubscriptionAttributesCommand,
+    ListSubscriptionsByTopicCommand
+} from '@aws-sdk/client-sns';
+
+// The resources created by the SesStack, read from its outputs
+export interface SesSetup {
+    configurationSetName: string;
+    eventsTopicArn: string;
+    senderEmail: string;
+}
+
+export interface SendOptions {
+    to: string[];
+    subject: string;
+    message: string;
+    html: boolean;
+    // overrides the sender from the stack outputs
+    from?: string;
+}
+
+export interface SesStatus {
+    configurationSet: {
+        name: string;
+        reputationMetricsEnabled: boolean;
+        eventDestinations: { name: string; enabled: boolean; eventTypes: string[]; topicArn?: string }[];
+    };
+    identities: { identity: string; verificationStatus: string }[];
+    subscriptions: { endpoint: string; protocol: string; pendingConfirmation: boolean }[];
+}
+
+export class CliError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CliError';
+    }
+}
+
+export const loadSetup = async (cloudFormation: CloudFormationClient, stackName: string): Promise<SesSetup> => {
+    const result = await cloudFormation.send(new DescribeStacksCommand({ StackName: stackName }));
+    const outputs = Object.fromEntries(
+        (result.Stacks?.[0]?.Outputs ?? []).map(output => [output.OutputKey, output.OutputValue])
+    );
+
+    const { ConfigurationSetName, EventsTopicArn, SenderEmail } = outputs;
+    if (!ConfigurationSetName || !EventsTopicArn || !SenderEmail) {
+        throw new CliError(`Stack ${stackName} is missing its outputs, has it been deployed?`);
+    }
+    return { configurationSetName: ConfigurationSetName, eventsTopicArn: EventsTopicArn, senderEmail: SenderEmail };
+};
+
+export const buildHtmlBody = (message: string): string =>
+    `<html><body><h1>Test Email</h1><p>${message}</p><p>This is an <strong>HTML email</strong> sent via SES.</p></body></html>`;
+
+// Send an email through the configuration set. HTML emails also carry the message as text for clients that don't render HTML.
+export const sendEmail = async (ses: SESClient, setup: SesSetup, options: SendOptions): Promise<string> => {
+    if (options.to.length === 0) {
+        throw new CliError('At least one recipient is required');
+    }
+
+    const result = await ses.send(new SendEmailCommand({
+        Source: options.from ?? setup.senderEmail,
+        Destination: { ToAddresses: options.to },
+        Message: {
+            Subject: { Data: options.subject, Charset: 'UTF-8' },
+            Body: {
+                Text: { Data: options.message, Charset: 'UTF-8' },
+                ...(options.html ? { Html: { Data: buildHtmlBody(options.message), Charset: 'UTF-8' } } : {})
+            }
+        },
+        ConfigurationSetName: setup.configurationSetName
+    }));
+    return result.MessageId as string;
+};
+
+export const getStatus = async (ses: SESClient, sns: SNSClient, setup: SesSetup): Promise<SesStatus> => {
+    const configurationSet = await ses.send(new DescribeConfigurationSetCommand({
+        ConfigurationSetName: setup.configurationSetName,
+        ConfigurationSetAttributeNames: ['eventDestinations', 'reputationOptions']
+    }));
+
+    const identities = await ses.send(new ListIdentitiesCommand({}));
+    const verification = await ses.send(new GetIdentityVerificationAttributesCommand({
+        Identities: identities.Identities ?? []
+    }));
+
+    const subscriptions = await sns.send(new ListSubscriptionsByTopicCommand({ TopicArn: setup.eventsTopicArn }));
+
+    return {
+        configurationSet: {
+            name: setup.configurationSetName,
+            reputationMetricsEnabled: configurationSet.ReputationOptions?.ReputationMetricsEnabled ?? false,
+            eventDestinations: (configurationSet.EventDestinations ?? []).map(destination => ({
+                name: destination.Name as string,
+                enabled: destination.Enabled ?? false,
+                eventTypes: destination.MatchingEventTypes ?? [],
+                topicArn: destination.SNSDestination?.TopicARN
+            }))
+        },
+        identities: (identities.Identities ?? []).map(identity => ({
+            identity,
+            verificationStatus: verification.VerificationAttributes?.[identity]?.VerificationStatus ?? 'NotStarted'
+        })),
+        subscriptions: (subscriptions.Subscriptions ?? []).map(subscription => ({
+            endpoint: subscription.Endpoint as string,
+            protocol: subscription.Protocol as string,
+            pendingConfirmation: subscription.SubscriptionArn === 'PendingConfirmation'
+        }))
+    };
+};
+
+// LocalStack doesn't send the confirmation email for email subscriptions, it exposes the token on an internal endpoint
+// instead. On AWS the subscriber confirms through the link in the email.
+export const confirmSubscriptions = async (
+    sns: SNSClient,
+    setup: SesSetup,
+    localStackEndpoint: string
+): Promise<string[]> => {
+    const subscriptions = await sns.send(new ListSubscriptionsByTopicCommand({ TopicArn: setup.eventsTopicArn }));
+    const confirmed: string[] = [];
+
+    for (const subscription of subscriptions.Subscriptions ?? []) {
+        const subscriptionArn = subscription.SubscriptionArn as string;
+        // AWS hides the ARN until the subscription is confirmed, so there is no token to look up
+        if (subscriptionArn === 'PendingConfirmation') {
+            continue;
+        }
+        const attributes = await sns.send(new GetSubscriptionAttributesCommand({ SubscriptionArn: subscriptionArn }));
+        if (attributes.Attributes?.PendingConfirmation !== 'true') {
+            continue;
+        }
+
+        const response = await fetch(`${localStackEndpoint}/_aws/sns/subscription-tokens/${subscriptionArn}`);
+        if (!response.ok) {
+            throw new CliError(`Unable to get the confirmation token for ${subscription.Endpoint}, is this running against LocalStack?`);
+        }
+        const { subscription_token: token } = await response.json() as { subscription_token: string };
+
+        await sns.send(new ConfirmSubscriptionCommand({ TopicArn: setup.eventsTopicArn, Token: token }));
+        confirmed.push(subscription.Endpoint as string);
+    }
+    return confirmed;
+};
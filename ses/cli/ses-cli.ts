@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import { CloudFormationClient } from '@aws-sdk/client-cloudformation';
+import { SESClient } from '@aws-sdk/client-ses';
+import { SNSClient } from '@aws-sdk/client-sns';
+import { CliError, confirmSubscriptions, getStatus, loadSetup, sendEmail } from './commands';
+
+const USAGE = `Usage: ses-cli <command> [options]
+
+Commands:
+  send                    Send an email through the configuration set
+    --to <address>        Recipient, can be repeated (required)
+    --subject <subject>   Subject line (default: "Test Email from SES")
+    --message <message>   Message body (default: a preset test message)
+    --html                Also send the message as HTML
+    --from <address>      Sender, defaults to the identity from the stack
+  status                  Show the configuration set, identities and topic subscriptions
+  confirm-subscriptions   Confirm pending email subscriptions to the events topic (LocalStack only)
+
+Options:
+  --stack <name>          Stack to read the SES setup from (default: SesStack)
+
+The AWS SDK picks up AWS_ENDPOINT_URL, so set it to http://localhost:4566 to run against LocalStack.`;
+
+const DEFAULT_SUBJECT = 'Test Email from SES';
+const DEFAULT_MESSAGE = 'This is a test email sent via AWS SES on LocalStack using the CLI.';
+
+export const main = async (argv: string[]): Promise<void> => {
+    const { positionals, values } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            to: { type: 'string', multiple: true },
+            subject: { type: 'string', default: DEFAULT_SUBJECT },
+            message: { type: 'string', default: DEFAULT_MESSAGE },
+            html: { type: 'boolean', default: false },
+            from: { type: 'string' },
+            stack: { type: 'string', default: 'SesStack' },
+            help: { type: 'boolean', default: false }
+        }
+    });
+
+    const [command] = positionals;
+    if (!command || values.help) {
+        console.log(USAGE);
+        return;
+    }
+
+    const ses = new SESClient({});
+    const sns = new SNSClient({});
+    const setup = await loadSetup(new CloudFormationClient({}), values.stack as string);
+
+    switch (command) {
+        case 'send': {
+            const messageId = await sendEmail(ses, setup, {
+                to: values.to ?? [],
+                subject: values.subject as string,
+                message: values.message as string,
+                html: values.html as boolean,
+                from: values.from
+            });
+            console.log(`Email sent from ${values.from ?? setup.senderEmail} with message id ${messageId}`);
+            return;
+        }
+        case 'status':
+            console.log(JSON.stringify(await getStatus(ses, sns, setup), null, 2));
+            return;
+        case 'confirm-subscriptions': {
+            const confirmed = await confirmSubscriptions(sns, setup, process.env.AWS_ENDPOINT_URL ?? 'http://localhost:4566');
+            console.log(confirmed.length ? `Confirmed subscriptions for ${confirmed.join(', ')}` : 'No subscriptions are pending confirmation');
+            return;
+        }
+        default:
+            throw new CliError(`Unknown command ${command}\n\n${USAGE}`);
+    }
+};
+
+if (require.main === module) {
+    main(process.argv.slice(2)).catch(error => {
+        console.error(error instanceof CliError ? error.message : error);
+        process.exitCode = 1;
+    });
+}
@@ -0,0 +1,9 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  testMatch: ['**/*.test.ts'],
+  transform: {
+    // the sources are compiled as CommonJS for the tests, so the NodeNext module warning doesn't apply
+    '^.+\\.tsx?$': ['ts-jest', { diagnostics: { ignoreCodes: ['TS151002'] } }]
+  }
+};
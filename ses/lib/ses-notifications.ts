@@ -0,0 +1,83 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import * as ses from 'aws-cdk-lib/aws-ses';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as snsSubscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import * as iam from 'aws-cdk-lib/aws-iam';
+
+export interface SesNotificationsProps {
+  // the email addresses that are allowed to send through SES
+  readonly emailIdentities: string[];
+  // domains that are allowed to send through SES, verified through the DNS records SES provides
+  readonly domainIdentities?: string[];
+  readonly configurationSetName?: string;
+  // tracks bounce and complaint rates for the configuration set, defaults to true
+  readonly reputationMetrics?: boolean;
+  readonly topicName?: string;
+  // the sending events published to the topic, defaults to reject, bounce and complaint
+  readonly eventTypes?: ses.EmailSendingEvent[];
+  // addresses that are subscribed to the topic by email
+  readonly notificationEmails?: string[];
+}
+
+const DEFAULT_EVENT_TYPES = [
+  ses.EmailSendingEvent.REJECT,
+  ses.EmailSendingEvent.BOUNCE,
+  ses.EmailSendingEvent.COMPLAINT,
+];
+
+// Provisions everything needed to send email through SES: a configuration set with reputation metrics,
+// an SNS topic receiving its sending events, and the verified identities that send through it
+export class SesNotifications extends Construct {
+  public readonly configurationSet: ses.ConfigurationSet;
+  public readonly eventsTopic: sns.Topic;
+  public readonly identities: ses.EmailIdentity[];
+
+  constructor(scope: Construct, id: string, props: SesNotificationsProps) {
+    super(scope, id);
+
+    if (props.emailIdentities.length === 0 && (props.domainIdentities ?? []).length === 0) {
+      throw new Error('SesNotifications needs at least one email or domain identity');
+    }
+
+    this.eventsTopic = new sns.Topic(this, 'EventsTopic', {
+      topicName: props.topicName,
+      displayName: 'SES Events Topic',
+    });
+    for (const email of props.notificationEmails ?? []) {
+      this.eventsTopic.addSubscription(new snsSubscriptions.EmailSubscription(email));
+    }
+
+    this.configurationSet = new ses.ConfigurationSet(this, 'ConfigurationSet', {
+      configurationSetName: props.configurationSetName,
+      reputationMetrics: props.reputationMetrics ?? true,
+    });
+    // the possible events are send, reject, bounce, complaint, delivery, open, click and renderingFailure
+    this.configurationSet.addEventDestination('ToSns', {
+      destination: ses.EventDestination.snsTopic(this.eventsTopic),
+      events: props.eventTypes ?? DEFAULT_EVENT_TYPES,
+    });
+
+    // every identity uses the configuration set by default, so its events are always published
+    this.identities = [
+      ...props.emailIdentities.map(email => ({ id: `Identity-${email}`, identity: ses.Identity.email(email) })),
+      ...(props.domainIdentities ?? []).map(domain => ({ id: `Identity-${domain}`, identity: ses.Identity.domain(domain) })),
+    ].map(({ id, identity }) => new ses.EmailIdentity(this, id, {
+      identity,
+      configurationSet: this.configurationSet,
+    }));
+  }
+
+  // Allow the grantee to send email from the identities through the configuration set
+  public grantSend(grantee: iam.IGrantable): iam.Grant {
+    const stack = cdk.Stack.of(this);
+    return iam.Grant.addToPrincipal({
+      grantee,
+      actions: ['ses:SendEmail', 'ses:SendRawEmail', 'ses:SendTemplatedEmail'],
+      resourceArns: [
+        ...this.identities.map(identity => stack.formatArn({ service: 'ses', resource: 'identity', resourceName: identity.emailIdentityName })),
+        stack.formatArn({ service: 'ses', resource: 'configuration-set', resourceName: this.configurationSet.configurationSetName }),
+      ],
+    });
+  }
+}
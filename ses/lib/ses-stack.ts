@@ -0,0 +1,39 @@
+import * as cdk from 'aws-cdk-lib';
+import { Construct } from 'constructs';
+import { SesNotifications } from './ses-notifications';
+
+export interface SesStackProps extends cdk.StackProps {
+  readonly senderEmail: string;
+  readonly notificationEmails?: string[];
+  readonly configurationSetName?: string;
+  readonly topicName?: string;
+}
+
+export class SesStack extends cdk.Stack {
+  constructor(scope: Construct, id: string, props: SesStackProps) {
+    super(scope, id, props);
+
+    const notifications = new SesNotifications(this, 'SesNotifications', {
+      emailIdentities: [props.senderEmail],
+      configurationSetName: props.configurationSetName ?? 'sample-ses-config-set',
+      topicName: props.topicName ?? 'ses-events-topic',
+      notificationEmails: props.notificationEmails,
+    });
+
+    // The CLI reads these outputs, so it doesn't have to look up the configuration set or topic itself
+    new cdk.CfnOutput(this, 'ConfigurationSetName', {
+      value: notifications.configurationSet.configurationSetName,
+      description: 'SES configuration set that emails are sent through',
+    });
+
+    new cdk.CfnOutput(this, 'EventsTopicArn', {
+      value: notifications.eventsTopic.topicArn,
+      description: 'SNS topic receiving SES reject, bounce and complaint events',
+    });
+
+    new cdk.CfnOutput(this, 'SenderEmail', {
+      value: props.senderEmail,
+      description: 'Verified email identity that emails are sent from',
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { CloudFormationClient, DescribeStacksCommand } from '@aws-sdk/client-cloudformation';
+import {
+    SESClient,
+    DescribeConfigurationSetCommand,
+    GetIdentityVerificationAttributesCommand,
+    ListIdentitiesCommand,
+    SendEmailCommand
+} from '@aws-sdk/client-ses';
+import { SNSClient, ListSubscriptionsByTopicCommand } from '@aws-sdk/client-sns';
+import { CliError, getStatus, loadSetup, sendEmail, type SesSetup } from '../cli/commands';
+
+const cloudFormationMock = mockClient(CloudFormationClient);
+const sesMock = mockClient(SESClient);
+const snsMock = mockClient(SNSClient);
+
+const setup: SesSetup = {
+    configurationSetName: 'sample-ses-config-set',
+    eventsTopicArn: 'arn:aws:sns:us-east-1:000000000000:ses-events-topic',
+    senderEmail: 'sender@example.com'
+};
+
+describe('ses cli', () => {
+    beforeEach(() => {
+        cloudFormationMock.reset();
+        sesMock.reset();
+        snsMock.reset();
+        sesMock.on(SendEmailCommand).resolves({ MessageId: 'message-id' });
+    });
+
+    describe('loadSetup', () => {
+        it('reads the setup from the stack outputs', async () => {
+            cloudFormationMock.on(DescribeStacksCommand).resolves({
+                Stacks: [{
+                    StackName: 'SesStack',
+                    CreationTime: new Date(),
+                    StackStatus: 'CREATE_COMPLETE',
+                    Outputs: [
+                        { OutputKey: 'ConfigurationSetName', OutputValue: setup.configurationSetName },
+                        { OutputKey: 'EventsTopicArn', OutputValue: setup.eventsTopicArn },
+                        { OutputKey: 'SenderEmail', OutputValue: setup.senderEmail }
+                    ]
+                }]
+            });
+
+            await expect(loadSetup(new CloudFormationClient({}), 'SesStack')).resolves.toEqual(setup);
+        });
+
+        it('fails when the stack has no outputs', async () => {
+            cloudFormationMock.on(DescribeStacksCommand).resolves({ Stacks: [] });
+
+            await expect(loadSetup(new CloudFormationClient({}), 'SesStack')).rejects.toBeInstanceOf(CliError);
+        });
+    });
+
+    describe('sendEmail', () => {
+        it('sends a text email through the configuration set', async () => {
+            const messageId = await sendEmail(new SESClient({}), setup, {
+                to: ['recipient@example.com'],
+                subject: 'Meeting Tomorrow',
+                message: "Don't forget about our 2pm meeting!",
+                html: false
+            });
+
+            expect(messageId).toBe('message-id');
+            const input = sesMock.commandCalls(SendEmailCommand)[0].args[0].input;
+            expect(input).toMatchObject({
+                Source: 'sender@example.com',
+                Destination: { ToAddresses: ['recipient@example.com'] },
+                ConfigurationSetName: 'sample-ses-config-set',
+                Message: { Subject: { Data: 'Meeting Tomorrow' }, Body: { Text: { Data: "Don't forget about our 2pm meeting!" } } }
+            });
+            expect(input.Message!.Body!.Html).toBeUndefined();
+        });
+
+        it('adds an HTML body and uses the sender override', async () => {
+            await sendEmail(new SESClient({}), setup, {
+                to: ['recipient@example.com'],
+                subject: 'Hello',
+                message: 'Hello there',
+                html: true,
+                from: 'other@example.com'
+            });
+
+            const input = sesMock.commandCalls(SendEmailCommand)[0].args[0].input;
+            expect(input.Source).toBe('other@example.com');
+            expect(input.Message!.Body!.Html!.Data).toContain('<p>Hello there</p>');
+            expect(input.Message!.Body!.Text!.Data).toBe('Hello there');
+        });
+
+        it('requires a recipient', async () => {
+            await expect(sendEmail(new SESClient({}), setup, { to: [], subject: 'Hello', message: 'Hello', html: false }))
+                .rejects.toBeInstanceOf(CliError);
+            expect(sesMock.commandCalls(SendEmailCommand)).toHaveLength(0);
+        });
+    });
+
+    describe('getStatus', () => {
+        it('reports the configuration set, identities and subscriptions', async () => {
+            sesMock.on(DescribeConfigurationSetCommand).resolves({
+                ReputationOptions: { ReputationMetricsEnabled: true },
+                EventDestinations: [{
+                    Name: 'ToSns',
+                    Enabled: true,
+                    MatchingEventTypes: ['reject', 'bounce', 'complaint'],
+                    SNSDestination: { TopicARN: setup.eventsTopicArn }
+                }]
+            });
+            sesMock.on(ListIdentitiesCommand).resolves({ Identities: ['sender@example.com'] });
+            sesMock.on(GetIdentityVerificationAttributesCommand).resolves({
+                VerificationAttributes: { 'sender@example.com': { VerificationStatus: 'Success' } }
+            });
+            snsMock.on(ListSubscriptionsByTopicCommand).resolves({
+                Subscriptions: [{ Endpoint: 'ops@example.com', Protocol: 'email', SubscriptionArn: 'PendingConfirmation' }]
+            });
+
+            await expect(getStatus(new SESClient({}), new SNSClient({}), setup)).resolves.toEqual({
+                configurationSet: {
+                    name: 'sample-ses-config-set',
+                    reputationMetricsEnabled: true,
+                    eventDestinations: [{ name: 'ToSns', enabled: true, eventTypes: ['reject', 'bounce', 'complaint'], topicArn: setup.eventsTopicArn }]
+                },
+                identities: [{ identity: 'sender@example.com', verificationStatus: 'Success' }],
+                subscriptions: [{ endpoint: 'ops@example.com', protocol: 'email', pendingConfirmation: true }]
+            });
+        });
+    });
+});
@@ -0,0 +1,85 @@
+import * as cdk from 'aws-cdk-lib';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as ses from 'aws-cdk-lib/aws-ses';
+import { Match, Template } from 'aws-cdk-lib/assertions';
+import { SesNotifications, type SesNotificationsProps } from '../lib/ses-notifications';
+
+const synthesize = (props: SesNotificationsProps, configure?: (notifications: SesNotifications, stack: cdk.Stack) => void) => {
+    const stack = new cdk.Stack(new cdk.App(), 'TestStack');
+    const notifications = new SesNotifications(stack, 'SesNotifications', props);
+    configure?.(notifications, stack);
+    return Template.fromStack(stack);
+};
+
+describe('SesNotifications', () => {
+    it('creates a configuration set with reputation metrics', () => {
+        const template = synthesize({ emailIdentities: ['sender@example.com'], configurationSetName: 'test-config-set' });
+
+        template.hasResourceProperties('AWS::SES::ConfigurationSet', {
+            Name: 'test-config-set',
+            ReputationOptions: { ReputationMetricsEnabled: true }
+        });
+    });
+
+    it('publishes reject, bounce and complaint events to the topic by default', () => {
+        const template = synthesize({ emailIdentities: ['sender@example.com'], topicName: 'test-events-topic' });
+
+        template.hasResourceProperties('AWS::SNS::Topic', { TopicName: 'test-events-topic' });
+        template.hasResourceProperties('AWS::SES::ConfigurationSetEventDestination', {
+            EventDestination: {
+                Enabled: true,
+                MatchingEventTypes: ['reject', 'bounce', 'complaint'],
+                SnsDestination: { TopicARN: Match.anyValue() }
+            }
+        });
+    });
+
+    it('publishes the configured event types', () => {
+        const template = synthesize({
+            emailIdentities: ['sender@example.com'],
+            eventTypes: [ses.EmailSendingEvent.DELIVERY]
+        });
+
+        template.hasResourceProperties('AWS::SES::ConfigurationSetEventDestination', {
+            EventDestination: Match.objectLike({ MatchingEventTypes: ['delivery'] })
+        });
+    });
+
+    it('verifies every identity and sends through the configuration set by default', () => {
+        const template = synthesize({
+            emailIdentities: ['sender@example.com', 'other@example.com'],
+            domainIdentities: ['example.org'],
+            configurationSetName: 'test-config-set'
+        });
+
+        template.resourceCountIs('AWS::SES::EmailIdentity', 3);
+        template.hasResourceProperties('AWS::SES::EmailIdentity', {
+            EmailIdentity: 'sender@example.com',
+            ConfigurationSetAttributes: { ConfigurationSetName: Match.anyValue() }
+        });
+        template.hasResourceProperties('AWS::SES::EmailIdentity', { EmailIdentity: 'example.org' });
+    });
+
+    it('subscribes the notification addresses to the topic', () => {
+        const template = synthesize({ emailIdentities: ['sender@example.com'], notificationEmails: ['ops@example.com'] });
+
+        template.hasResourceProperties('AWS::SNS::Subscription', { Protocol: 'email', Endpoint: 'ops@example.com' });
+    });
+
+    it('requires at least one identity', () => {
+        expect(() => synthesize({ emailIdentities: [] })).toThrow('at least one email or domain identity');
+    });
+
+    it('grants permission to send from the identities', () => {
+        const template = synthesize({ emailIdentities: ['sender@example.com'] }, (notifications, stack) => {
+            const role = new iam.Role(stack, 'SenderRole', { assumedBy: new iam.ServicePrincipal('lambda.amazonaws.com') });
+            notifications.grantSend(role);
+        });
+
+        template.hasResourceProperties('AWS::IAM::Policy', {
+            PolicyDocument: {
+                Statement: [Match.objectLike({ Action: ['ses:SendEmail', 'ses:SendRawEmail', 'ses:SendTemplatedEmail'] })]
+            }
+        });
+    });
+});
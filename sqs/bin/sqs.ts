@@ -1,9 +1,17 @@
 #!/usr/bin/env node
 import * as cdk from 'aws-cdk-lib';
 import { SqsStack } from '../lib/sqs-stack';
+import { environmentStackProps } from '../lib/environments';
 
 const app = new cdk.App();
-new SqsStack(app, 'SqsStack', {
+
+// `cdk deploy -c env=dev` deploys the dev environment from cdk.json as SqsStack-dev, with its own resource names.
+// Without an environment the stack keeps its original names and is deployed as SqsStack.
+const environment: string | undefined = app.node.tryGetContext('env');
+
+new SqsStack(app, environment ? `SqsStack-${environment}` : 'SqsStack', {
+  ...(environment ? environmentStackProps(app, environment) : {}),
+
   /* If you don't specify 'env', this stack will be environment-agnostic.
    * Account/Region-dependent features and context lookups will not work,
    * but a single synthesized template can be deployed anywhere. */
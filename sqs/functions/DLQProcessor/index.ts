@@ -1,42 +1,66 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import type { SQSEvent, SQSRecord, Context } from 'aws-lambda';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { SESClient } from '@aws-sdk/client-ses';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import type { SQSBatchItemFailure, SQSBatchResponse, SQSEvent, SQSRecord, Context } from 'aws-lambda';
 import { Logger } from '@aws-lambda-powertools/logger';
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { buildItemOutcomeEvent, buildOrderCompletedEvent, emitDomainEvents } from '../shared/domainEvents';
+import { releaseOrderReservations, releaseStoredItemReservation } from '../shared/inventory';
+import { notifyItemFailed, notifyOrderFinished } from '../shared/notifications';
+import { correlationIdOf, instrumentHandler, MetricName, MetricService, traceRecord } from '../shared/observability';
+import { createPaymentProvider } from '../shared/payments';
+import { settleOrderPayment, settlePaymentIfDue } from '../shared/settlement';
+import {
+    cancelPendingItem,
+    ItemStatus,
+    OrderStatus,
+    recordItemOutcome,
+    refreshOrderStatus,
+    type ItemOutcomeResult,
+    type OrderKey
+} from '../shared/orderStatus';
 
 interface OrderItemMessage {
     orderId: string;
     userId: string;
     itemId: string;
+    sku?: string;
     itemDetail: string;
     quantity: number;
     price: number;
     timestamp: string;
 }
 
-const dynamoDBClient = new DynamoDBClient({});
+const tracer = new Tracer({ serviceName: MetricService.DLQ_PROCESSOR });
+const metrics = new Metrics({ serviceName: MetricService.DLQ_PROCESSOR });
+const dynamoDBClient = tracer.captureAWSv3Client(new DynamoDBClient({}));
 const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
+const ses = tracer.captureAWSv3Client(new SESClient({}));
+const eventBridge = tracer.captureAWSv3Client(new EventBridgeClient({}));
+const payments = createPaymentProvider();
 const logger = new Logger({ serviceName: 'orderProcessor' });
 
-// Update item status to failed in DynamoDB
-const updateItemStatusToFailed = async (orderId: string, itemId: string): Promise<void> => {
+// Update item status to failed in DynamoDB and count it against the order, publishing the ItemFailed event once it is recorded
+const updateItemStatusToFailed = async (orderKey: OrderKey, itemMessage: OrderItemMessage, correlationId?: string): Promise<ItemOutcomeResult> => {
+    const itemId = itemMessage.itemId;
     try {
         logger.error(`Updating item ${itemId} status to: FAILED`);
         
-        // Update the item status to FAILED
-        await dynamoDB.send(new UpdateCommand({
-            TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
-            Key: {
-                orderId,
-                itemId
-            },
-            UpdateExpression: 'SET itemStatus = :status, failedAt = :failedAt',
-            ExpressionAttributeValues: {
-                ':status': 'FAILED',
-                ':failedAt': new Date().toISOString()
-            }
-        }));
+        // Update the item status to FAILED, unless it has already been cancelled or otherwise finished
+        const result = await recordItemOutcome(dynamoDB, orderKey, itemId, ItemStatus.FAILED);
 
-        logger.info(`Successfully updated item ${itemId} to status: FAILED`);
+        if (result === 'RECORDED') {
+            logger.info(`Successfully updated item ${itemId} to status: FAILED`);
+            await emitDomainEvents(eventBridge, [buildItemOutcomeEvent(itemMessage, ItemStatus.FAILED, correlationId)]);
+        }
+
+        // An item of a cancelled order is cancelled rather than failed
+        if (result === 'ORDER_CANCELLED') {
+            await cancelPendingItem(dynamoDB, orderKey.orderId, itemId);
+        }
+        return result;
         
     } catch (error) {
         logger.error(`Failed to update item status to FAILED for ${itemId}:`, error instanceof Error ? error : String(error));
@@ -44,23 +68,55 @@ const updateItemStatusToFailed = async (orderId: string, itemId: string): Promis
     }
 };
 
-// Process failed items from the dead letter queue
-const processFailedItem = async (itemMessage: OrderItemMessage): Promise<void> => {
-    logger.info(`Processing failed item ${itemMessage.itemId} on order ${itemMessage.orderId} from DLQ`);
+// Roll the item outcome up into the order status, as the OrderProcessor does. A failed settlement is rethrown so the
+// message is retried, and the retry settles the order that the earlier attempt already finished.
+const refreshOrder = async (orderKey: OrderKey): Promise<void> => {
+    const change = await refreshOrderStatus(dynamoDB, orderKey);
+    if (!change) {
+        await settlePaymentIfDue(dynamoDB, payments, orderKey);
+        return;
+    }
+    if (change.orderStatus === OrderStatus.FAILED) {
+        await releaseOrderReservations(dynamoDB, orderKey.orderId);
+    }
+    await settleOrderPayment(dynamoDB, payments, change.order);
+    await notifyOrderFinished(ses, dynamoDB, change);
+    await emitDomainEvents(eventBridge, [buildOrderCompletedEvent(change)]);
+};
+
+// Process failed items from the dead letter queue. An error is rethrown so that the message stays on the DLQ and
+// is retried, an item whose failure was already recorded isn't counted or reported again on the retry.
+export const processFailedItem = async (itemMessage: OrderItemMessage, correlationId?: string): Promise<void> => {
+    logger.info(`Processing failed item ${itemMessage.itemId} on order ${itemMessage.orderId} from DLQ`, { correlationId });
     
-    // In a real implementation, you might:
-    // 1. Send notifications to administrators
-    // 2. Log to a separate error tracking system
-    // 3. Attempt alternative processing methods
+    // In a real implementation, you might also:
+    // 1. Log to a separate error tracking system
+    // 2. Attempt alternative processing methods
     
     try {
         // Mark the item as failed in DynamoDB
-        await updateItemStatusToFailed(itemMessage.orderId, itemMessage.itemId);
+        const orderKey: OrderKey = { orderId: itemMessage.orderId, timestamp: itemMessage.timestamp };
+        const result = await updateItemStatusToFailed(orderKey, itemMessage, correlationId);
+
+        // A FAILED item gives back the stock it reserved, a redrive reserves it again. A retry that finds the item
+        // already final releases it too, as long as the item is FAILED rather than PROCESSED.
+        if (result !== 'ORDER_CANCELLED') {
+            await releaseStoredItemReservation(dynamoDB, orderKey.orderId, itemMessage.itemId, ItemStatus.FAILED);
+        }
         
-        // in a real application, we'd probably want to update the order status too but we're not doing that here
+        // Roll the failure up into the order status. When that finishes the order, its payment is settled, the customer
+        // is emailed and the OrderCompleted event is published, and a FAILED order gives back the stock its items still hold.
+        await refreshOrder(orderKey);
+
+        if (result !== 'RECORDED') {
+            logger.info(`Item ${itemMessage.itemId} on order ${itemMessage.orderId} was not marked as FAILED (${result})`);
+            return;
+        }
         
-        logger.error(`Item ${itemMessage.itemId} on order ${itemMessage.orderId} failed after maximum retries`);
+        metrics.addMetric(MetricName.ITEMS_FAILED, MetricUnit.Count, 1);
+        logger.error(`Item ${itemMessage.itemId} on order ${itemMessage.orderId} failed after maximum retries`, { correlationId });
         logger.info(`Item details:`, {
+            correlationId,
             orderId: itemMessage.orderId,
             userId: itemMessage.userId,
             itemDetail: itemMessage.itemDetail,
@@ -69,36 +125,73 @@ const processFailedItem = async (itemMessage: OrderItemMessage): Promise<void> =
             timestamp: itemMessage.timestamp
         });
         
-        // You might typically also send notifications or alerts here
+        // Let the operations team know so the item can be reviewed and redriven
+        await notifyItemFailed(ses, dynamoDB, itemMessage);
         logger.info(`Item ${itemMessage.itemId} on order ${itemMessage.orderId} marked as FAILED and logged for manual review`);
         
     } catch (error) {
-        logger.error(`Failed to process DLQ message for item ${itemMessage.itemId}:`, error instanceof Error ? error : String(error));
+        logger.error(`Failed to process DLQ message for item ${itemMessage.itemId}:`, {
+            correlationId,
+            error: error instanceof Error ? error : String(error)
+        });
+        throw error;
     }
 };
 
 // Process a single DLQ record
 const processDLQRecord = async (record: SQSRecord): Promise<void> => {
+    // the message keeps the attributes it had on the main queue, so the correlation id of the order comes along
+    const correlationId = correlationIdOf(record);
+    metrics.addMetric(MetricName.DLQ_ARRIVALS, MetricUnit.Count, 1);
+
+    let itemMessage: OrderItemMessage;
     try {
-        const itemMessage: OrderItemMessage = JSON.parse(record.body);
-        logger.info(`Processing DLQ message for item ${itemMessage.itemId} on order ${itemMessage.orderId}`);
-        
-        await processFailedItem(itemMessage);
-        
-        logger.info(`DLQ message for item ${itemMessage.itemId} on order ${itemMessage.orderId} processed successfully`);
-        
+        itemMessage = JSON.parse(record.body);
     } catch (error) {
-        logger.error(`Failed to process DLQ record ${record.messageId}:`, error instanceof Error ? error : String(error));
+        // a message that can't be parsed would fail on every retry, so it is only logged
+        logger.error(`Failed to parse DLQ record ${record.messageId}:`, {
+            correlationId,
+            error: error instanceof Error ? error : String(error)
+        });
+        return;
     }
+    logger.info(`Processing DLQ message for item ${itemMessage.itemId} on order ${itemMessage.orderId}`, { correlationId });
+    
+    await traceRecord(tracer, 'processDLQRecord', { correlationId, orderId: itemMessage.orderId, itemId: itemMessage.itemId },
+        () => processFailedItem(itemMessage, correlationId));
+    
+    logger.info(`DLQ message for item ${itemMessage.itemId} on order ${itemMessage.orderId} processed successfully`);
 };
 
-export const handler = async (event: SQSEvent, context: Context): Promise<void> => {
+// Process the records of a single message group in order, the records after a failed one are reported
+// as failures too so that the DLQ keeps the group in its original order, as the OrderProcessor does
+const processMessageGroup = async (records: SQSRecord[]): Promise<SQSBatchItemFailure[]> => {
+    for (let index = 0; index < records.length; index++) {
+        try {
+            await processDLQRecord(records[index]);
+        } catch {
+            return records.slice(index).map(record => ({ itemIdentifier: record.messageId }));
+        }
+    }
+    return [];
+};
+
+export const handler = instrumentHandler(tracer, metrics, async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
     logger.info(`Processing ${event.Records.length} DLQ messages`);
     
-    // Process all DLQ messages
-    await Promise.allSettled(
-        event.Records.map(record => processDLQRecord(record))
+    const messageGroups = new Map<string, SQSRecord[]>();
+    for (const record of event.Records) {
+        const groupId = record.attributes.MessageGroupId ?? record.messageId;
+        messageGroups.set(groupId, [...(messageGroups.get(groupId) ?? []), record]);
+    }
+
+    // Only the records that failed are left on the DLQ to be retried
+    const groupFailures = await Promise.all(
+        [...messageGroups.values()].map(records => processMessageGroup(records))
     );
+    const batchItemFailures = groupFailures.flat();
     
-    logger.info(`DLQ processing complete for ${event.Records.length} messages`);
-};
\ No newline at end of file
+    logger.info(`DLQ processing complete for ${event.Records.length - batchItemFailures.length} of ${event.Records.length} messages`);
+
+    return { batchItemFailures };
+});
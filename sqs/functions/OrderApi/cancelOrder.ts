@@ -0,0 +1,125 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import type { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { requestCompensation, type CompensatableItem } from '../shared/compensation';
+import { buildDomainEvent, DomainEventType, emitDomainEvents, type OrderCancelledData } from '../shared/domainEvents';
+import { releaseOrderReservations } from '../shared/inventory';
+import { findOrder, listOrderItems } from '../shared/orders';
+import { cancelPendingItem, ItemStatus, OrderStatus } from '../shared/orderStatus';
+import type { PaymentProvider } from '../shared/payments';
+import { settleOrderPayment, settlePaymentIfDue, type PaymentTransaction } from '../shared/settlement';
+
+export type CancelOrderResult =
+    | { outcome: 'NOT_FOUND' }
+    | { outcome: 'NOT_CANCELLABLE'; orderStatus: string }
+    | {
+        outcome: 'CANCELLED';
+        cancelledItems: string[];
+        compensatedItems: string[];
+        releasedItems: string[];
+        paymentTransactions: PaymentTransaction[];
+    };
+
+const logger = new Logger({ serviceName: 'orderApi' });
+
+// Cancel the PENDING items of a cancelled order, ask for PROCESSED items to be compensated and release the stock the order holds.
+// Items that were already cancelled, compensated or released are skipped, so this can run again when a cancellation is retried.
+const cancelOrderItems = async (
+    dynamoDB: DynamoDBDocumentClient,
+    sqs: SQSClient,
+    orderId: string
+): Promise<{ cancelledItems: string[]; compensatedItems: string[]; releasedItems: string[] }> => {
+    // The processors can no longer record outcomes against the order,
+    // so every item is either still PENDING or reached its final status before the cancellation
+    const items = await listOrderItems(dynamoDB, orderId);
+    const cancelledItems: string[] = [];
+    const compensatedItems: string[] = [];
+
+    for (const item of items) {
+        if (item.itemStatus === ItemStatus.PENDING && await cancelPendingItem(dynamoDB, orderId, item.itemId)) {
+            cancelledItems.push(item.itemId);
+        }
+
+        // processed items stay PROCESSED, but downstream systems are asked to undo the work
+        if (item.itemStatus === ItemStatus.PROCESSED && !item.compensationStatus) {
+            await requestCompensation(sqs, dynamoDB, item as CompensatableItem);
+            compensatedItems.push(item.itemId);
+        }
+    }
+
+    // reservations can't be made once the order is cancelled, so this catches all of them
+    const releasedItems = await releaseOrderReservations(dynamoDB, orderId);
+
+    return { cancelledItems, compensatedItems, releasedItems };
+};
+
+// Cancel an order that is still SCHEDULED, PENDING or PROCESSING.
+// PENDING items are cancelled, items that were already PROCESSED get a compensation event and FAILED items are left as is.
+// Every stock reservation the order still holds is released, its payment authorization is voided and the OrderCancelled event is published.
+export const cancelOrder = async (
+    dynamoDB: DynamoDBDocumentClient,
+    sqs: SQSClient,
+    eventBridge: EventBridgeClient,
+    payments: PaymentProvider,
+    orderId: string
+): Promise<CancelOrderResult> => {
+    const order = await findOrder(dynamoDB, orderId);
+    if (!order) {
+        return { outcome: 'NOT_FOUND' };
+    }
+
+    const cancelledAt = new Date().toISOString();
+
+    // the order is cancelled first so that no further item outcomes are rolled up into it,
+    // and a SCHEDULED order leaves the scheduled-index so it is never released
+    let previousStatus: OrderCancelledData['previousStatus'];
+    try {
+        const cancelled = await dynamoDB.send(new UpdateCommand({
+            TableName: process.env.ORDERS_TABLE_NAME as string,
+            Key: { orderId, timestamp: order.timestamp },
+            UpdateExpression: 'SET orderStatus = :cancelled, cancelledAt = :cancelledAt, updatedAt = :cancelledAt REMOVE scheduleStatus',
+            ConditionExpression: 'orderStatus IN (:scheduled, :pending, :processing)',
+            ExpressionAttributeValues: {
+                ':cancelled': OrderStatus.CANCELLED,
+                ':scheduled': OrderStatus.SCHEDULED,
+                ':pending': OrderStatus.PENDING,
+                ':processing': OrderStatus.PROCESSING,
+                ':cancelledAt': cancelledAt
+            },
+            ReturnValues: 'ALL_OLD',
+            ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+        }));
+        // the order may have moved on since it was read
+        previousStatus = cancelled.Attributes?.orderStatus ?? order.orderStatus;
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            const orderStatus = error.Item?.orderStatus?.S ?? order.orderStatus;
+            // an earlier cancellation may have failed before it finished with the items or settled the payment
+            if (orderStatus === OrderStatus.CANCELLED) {
+                await cancelOrderItems(dynamoDB, sqs, orderId);
+                await settlePaymentIfDue(dynamoDB, payments, { orderId, timestamp: order.timestamp });
+            }
+            return { outcome: 'NOT_CANCELLABLE', orderStatus };
+        }
+        throw error;
+    }
+
+    const { cancelledItems, compensatedItems, releasedItems } = await cancelOrderItems(dynamoDB, sqs, orderId);
+
+    // a cancelled order is charged nothing
+    const paymentTransactions = await settleOrderPayment(dynamoDB, payments, { ...order, orderStatus: OrderStatus.CANCELLED });
+
+    logger.info(`Order ${orderId} cancelled`, { cancelledItems, compensatedItems, releasedItems, paymentTransactions });
+
+    await emitDomainEvents(eventBridge, [buildDomainEvent(DomainEventType.ORDER_CANCELLED, {
+        orderId,
+        userId: order.userId,
+        previousStatus,
+        cancelledItems,
+        compensatedItems
+    }, order.correlationId)]);
+
+    return { outcome: 'CANCELLED', cancelledItems, compensatedItems, releasedItems, paymentTransactions };
+};
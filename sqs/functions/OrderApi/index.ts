@@ -0,0 +1,183 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import type { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { findOrder, listOrderItems } from '../shared/orders';
+import { ItemStatus } from '../shared/orderStatus';
+import { createPaymentProvider } from '../shared/payments';
+import { listSuppressedAddresses, removeSuppressedAddress } from '../shared/suppression';
+import { cancelOrder } from './cancelOrder';
+
+interface Page {
+    items: Record<string, any>[];
+    nextToken?: string;
+}
+
+const dynamoDBClient = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
+const sqs = new SQSClient({});
+const eventBridge = new EventBridgeClient({});
+const payments = createPaymentProvider();
+const logger = new Logger({ serviceName: 'orderApi' });
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+class BadRequestError extends Error {}
+
+const respond = (statusCode: number, body: unknown): APIGatewayProxyResult => ({
+    statusCode,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+});
+
+// Pagination tokens are the DynamoDB LastEvaluatedKey encoded so that clients can treat them as opaque
+const encodeNextToken = (lastEvaluatedKey?: Record<string, any>): string | undefined =>
+    lastEvaluatedKey ? Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64url') : undefined;
+
+const decodeNextToken = (nextToken?: string): Record<string, any> | undefined => {
+    if (!nextToken) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(Buffer.from(nextToken, 'base64url').toString('utf8'));
+    } catch {
+        throw new BadRequestError('nextToken is not valid');
+    }
+};
+
+const parseLimit = (limit?: string): number => {
+    if (limit === undefined) {
+        return DEFAULT_PAGE_SIZE;
+    }
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_PAGE_SIZE) {
+        throw new BadRequestError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    return value;
+};
+
+// Query a secondary index one page at a time, newest first
+const queryIndex = async (
+    tableName: string,
+    indexName: string,
+    keyName: string,
+    keyValue: string,
+    event: APIGatewayProxyEvent
+): Promise<Page> => {
+    const result = await dynamoDB.send(new QueryCommand({
+        TableName: tableName,
+        IndexName: indexName,
+        KeyConditionExpression: '#key = :value',
+        ExpressionAttributeNames: { '#key': keyName },
+        ExpressionAttributeValues: { ':value': keyValue },
+        ScanIndexForward: false,
+        Limit: parseLimit(event.queryStringParameters?.limit),
+        ExclusiveStartKey: decodeNextToken(event.queryStringParameters?.nextToken)
+    }));
+
+    return { items: result.Items ?? [], nextToken: encodeNextToken(result.LastEvaluatedKey) };
+};
+
+// GET /orders/{orderId}
+const getOrder = async (orderId: string): Promise<APIGatewayProxyResult> => {
+    const order = await findOrder(dynamoDB, orderId);
+    if (!order) {
+        return respond(404, { message: `Order ${orderId} not found` });
+    }
+
+    const items = await listOrderItems(dynamoDB, orderId);
+    return respond(200, { ...order, items });
+};
+
+// GET /users/{userId}/orders
+const listUserOrders = async (userId: string, event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const page = await queryIndex(process.env.ORDERS_TABLE_NAME as string, 'userId-index', 'userId', userId, event);
+    return respond(200, page);
+};
+
+// GET /items?status=FAILED
+const listItemsByStatus = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const status = event.queryStringParameters?.status;
+    const validStatuses = Object.values(ItemStatus) as string[];
+    if (!status || !validStatuses.includes(status)) {
+        throw new BadRequestError(`status must be one of ${validStatuses.join(', ')}`);
+    }
+
+    const page = await queryIndex(process.env.ORDER_ITEMS_TABLE_NAME as string, 'status-index', 'itemStatus', status, event);
+    return respond(200, page);
+};
+
+// DELETE /orders/{orderId}
+const deleteOrder = async (orderId: string): Promise<APIGatewayProxyResult> => {
+    const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, orderId);
+
+    switch (result.outcome) {
+        case 'NOT_FOUND':
+            return respond(404, { message: `Order ${orderId} not found` });
+        case 'NOT_CANCELLABLE':
+            return respond(409, { message: `Order ${orderId} is ${result.orderStatus} and can no longer be cancelled` });
+        case 'CANCELLED':
+            return respond(200, {
+                message: `Order ${orderId} cancelled`,
+                cancelledItems: result.cancelledItems,
+                compensatedItems: result.compensatedItems,
+                releasedItems: result.releasedItems,
+                paymentTransactions: result.paymentTransactions
+            });
+    }
+};
+
+// GET /suppressions
+const listSuppressions = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+    const page = await listSuppressedAddresses(
+        dynamoDB,
+        parseLimit(event.queryStringParameters?.limit),
+        decodeNextToken(event.queryStringParameters?.nextToken)
+    );
+    return respond(200, { items: page.items, nextToken: encodeNextToken(page.lastEvaluatedKey) });
+};
+
+// DELETE /suppressions/{email} lets an address receive notifications again
+const deleteSuppression = async (email: string): Promise<APIGatewayProxyResult> => {
+    const removed = await removeSuppressedAddress(dynamoDB, decodeURIComponent(email));
+    if (!removed) {
+        return respond(404, { message: `${email} is not suppressed` });
+    }
+    logger.info(`Removed ${email} from the suppression list`);
+    return respond(200, { message: `${email} removed from the suppression list` });
+};
+
+// Routes requests from the API Gateway REST API. POST /orders is handled by the OrderManager function.
+export const handler = async (event: APIGatewayProxyEvent, _context: Context): Promise<APIGatewayProxyResult> => {
+    const route = `${event.httpMethod} ${event.resource}`;
+    const pathParameters = event.pathParameters ?? {};
+    logger.info(`Handling request ${route}`, { pathParameters });
+
+    try {
+        switch (route) {
+            case 'GET /orders/{orderId}':
+                return await getOrder(pathParameters.orderId as string);
+            case 'DELETE /orders/{orderId}':
+                return await deleteOrder(pathParameters.orderId as string);
+            case 'GET /users/{userId}/orders':
+                return await listUserOrders(pathParameters.userId as string, event);
+            case 'GET /items':
+                return await listItemsByStatus(event);
+            case 'GET /suppressions':
+                return await listSuppressions(event);
+            case 'DELETE /suppressions/{email}':
+                return await deleteSuppression(pathParameters.email as string);
+            default:
+                return respond(404, { message: `Route ${route} not found` });
+        }
+    } catch (error) {
+        if (error instanceof BadRequestError) {
+            return respond(400, { message: error.message });
+        }
+        logger.error(`Failed to handle request ${route}:`, error instanceof Error ? error : String(error));
+        return respond(500, { message: 'Internal server error' });
+    }
+};
@@ -1,75 +1,180 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, BatchWriteCommand } from '@aws-sdk/lib-dynamodb';
-import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { SESClient } from '@aws-sdk/client-ses';
 import { makeIdempotent } from '@aws-lambda-powertools/idempotency';
 import { DynamoDBPersistenceLayer } from '@aws-lambda-powertools/idempotency/dynamodb';
-import type { Context, APIGatewayProxyResult } from 'aws-lambda';
+import type { Context, APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { Logger } from '@aws-lambda-powertools/logger';
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { buildDomainEvent, DomainEventType, toDomainEventItem, type OrderPlacedData } from '../shared/domainEvents';
+import { loadPriorityLanes, OrderPriority, type Lane } from '../shared/lanes';
+import { notifyOrderReceived } from '../shared/notifications';
+import { instrumentHandler, MetricName, MetricService } from '../shared/observability';
+import { findOrder, type OrderItemRecord } from '../shared/orders';
+import { ItemStatus, OrderStatus } from '../shared/orderStatus';
+import { buildItemMessages, buildOutboxEntry, chunk, MAX_TRANSACTION_ACTIONS } from '../shared/outbox';
+import { createPaymentProvider, toCents } from '../shared/payments';
+import { MAX_DELAY_SECONDS, SCHEDULE_STATUS_SCHEDULED, secondsUntil } from '../shared/scheduling';
+import { buildPaymentTransaction, PaymentStatus, type PaymentTransaction } from '../shared/settlement';
+import { validateOrderEvent, type OrderEvent, type OrderItem, type UnknownFieldPolicy, type ValidationOptions } from './validation';
 
-interface OrderItem {
-    itemDetail: string;
-    quantity: number;
-    price: number;
-}
-
-interface OrderEvent {
-    orderItems: OrderItem[];
-    orderId: string;
-    userId: string;
-    orderStatus: string;
-}
-
-const dynamoDBClient = new DynamoDBClient({});
+const tracer = new Tracer({ serviceName: MetricService.ORDER_MANAGER });
+const metrics = new Metrics({ serviceName: MetricService.ORDER_MANAGER });
+const dynamoDBClient = tracer.captureAWSv3Client(new DynamoDBClient({}));
 const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
-const sqs = new SQSClient({});
+const ses = tracer.captureAWSv3Client(new SESClient({}));
 const persistenceStore = new DynamoDBPersistenceLayer({
     tableName: process.env.IDEMPOTENCY_TABLE_NAME as string,
 });
+const payments = createPaymentProvider();
 const logger = new Logger({ serviceName: 'orderManager' });
+const validationOptions: ValidationOptions = {
+    maxItems: Number(process.env.MAX_ORDER_ITEMS ?? 25),
+    unknownFields: (process.env.UNKNOWN_FIELD_POLICY ?? 'reject') as UnknownFieldPolicy,
+    maxScheduleDays: Number(process.env.MAX_SCHEDULE_DAYS ?? 30),
+};
+const priorityLanes = loadPriorityLanes();
+
+// When the items of an order for a later time are due to be released
+interface OrderSchedule {
+    scheduledFor: string;
+    delaySeconds: number;
+}
 
+// Thrown when an order with the same id, or one of its items, was already stored
+class OrderAlreadyExistsError extends Error {}
 
-const addOrderToDatabase = async (orderId: string, userId: string, items: OrderItem[], orderStatus: string) => {
+const orderAlreadyExists = (orderId: string): APIGatewayProxyResult => ({
+    statusCode: 409,
+    body: JSON.stringify({ message: 'Order already exists', orderId })
+});
+
+const addOrderToDatabase = async (
+    orderId: string,
+    userId: string,
+    items: OrderItem[],
+    orderStatus: OrderPlacedData['orderStatus'],
+    authorization: PaymentTransaction,
+    correlationId: string,
+    priority: OrderPriority,
+    lane: Lane,
+    customerEmail?: string,
+    schedule?: OrderSchedule
+): Promise<OrderItemRecord[]> => {
     const timestamp = new Date().toISOString();
-    let orderItemRecords: any[] = [];
+    let orderItemRecords: OrderItemRecord[] = [];
     
     try {
         // Store the order record
         const orderRecord = {
             orderId,
             userId,
+            // kept on the order so the completion email can be sent once every item has been processed
+            ...(customerEmail ? { customerEmail } : {}),
             orderStatus,
             timestamp,
+            correlationId,
+            priority,
+            lane,
+            // a SCHEDULED order is listed in the sparse scheduled-index until it is released, see shared/scheduling.ts
+            ...(schedule ? { scheduledFor: schedule.scheduledFor, scheduleStatus: SCHEDULE_STATUS_SCHEDULED } : {}),
             totalItems: items.length,
-            totalValue: items.reduce((sum, item) => sum + (item.price * item.quantity), 0)
+            // item outcomes are counted against the order as they are processed
+            processedItems: 0,
+            failedItems: 0,
+            totalValue: items.reduce((sum, item) => sum + (item.price * item.quantity), 0),
+            // the order is settled against this authorization once every item has reached a final status
+            paymentProvider: payments.name,
+            paymentStatus: PaymentStatus.AUTHORIZED,
+            paymentTransactions: [authorization]
         };
 
         // Store individual order items
-        orderItemRecords = items.map((item, index) => ({
+        orderItemRecords = items.map(item => ({
             orderId,
-            itemId: `${orderId}-item-${index}`, // Create unique item ID
+            itemId: item.itemId, // either supplied by the client or generated during validation
+            sku: item.sku,
             itemDetail: item.itemDetail,
             quantity: item.quantity,
             price: item.price,
-            itemStatus: 'PENDING',
+            itemStatus: ItemStatus.PENDING,
+            // kept on the item so a redrive sends it back to the same lane
+            lane,
             timestamp
         }));
 
-        // Store the order
-        await dynamoDB.send(new PutCommand({
-            TableName: 'OrdersTable',
-            Item: orderRecord
-        }));
+        // Each item is sent to the FIFO queue of its lane by the OutboxRelay once the outbox entry is written.
+        // The items of a SCHEDULED order are written to the outbox when it is released, an order that is due
+        // within the SQS delay limit gets a delayed release message instead.
+        // The OrderPlaced event is relayed from the same entry, so it is only published once the order is stored.
+        const orderPlaced = buildDomainEvent(DomainEventType.ORDER_PLACED, {
+            orderId,
+            userId,
+            timestamp,
+            orderStatus,
+            priority,
+            lane,
+            ...(schedule ? { scheduledFor: schedule.scheduledFor } : {}),
+            totalValue: orderRecord.totalValue,
+            items: orderItemRecords.map(toDomainEventItem)
+        }, correlationId);
+        const release = schedule && schedule.delaySeconds <= MAX_DELAY_SECONDS
+            ? { orderId, timestamp, scheduledFor: schedule.scheduledFor, correlationId }
+            : undefined;
+        // the outbox id doesn't depend on the timestamp, so a second submission of the order can't write another entry
+        const outboxEntry = buildOutboxEntry(
+            `${orderId}#submit`,
+            orderId,
+            schedule ? [] : buildItemMessages(orderItemRecords, lane, correlationId),
+            release,
+            [orderPlaced]
+        );
 
-        // Store the order items in batch
-        const batchItems = orderItemRecords.map(item => ({
-            PutRequest: { Item: item }
+        // nothing that was already stored is overwritten, so a resubmitted order can't send its items back to PENDING
+        const itemPuts = orderItemRecords.map(item => ({
+            Put: {
+                TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+                Item: item,
+                ConditionExpression: 'attribute_not_exists(itemId)'
+            }
         }));
-        await dynamoDB.send(new BatchWriteCommand({
-            RequestItems: {
-                'OrderItemsTable': batchItems
+        const orderPuts = [
+            {
+                Put: {
+                    TableName: process.env.ORDERS_TABLE_NAME as string,
+                    Item: orderRecord,
+                    ConditionExpression: 'attribute_not_exists(orderId)'
+                }
+            },
+            {
+                Put: {
+                    TableName: process.env.OUTBOX_TABLE_NAME as string,
+                    Item: outboxEntry,
+                    ConditionExpression: 'attribute_not_exists(outboxId)'
+                }
             }
-        }))
+        ];
+
+        // The order and its outbox entry are always written together in the last transaction, so the order
+        // is only visible and its messages are only sent once every item has been stored.
+        // Orders of up to 98 items fit in a single transaction, larger orders write their first items in earlier ones.
+        const finalItemCount = Math.min(itemPuts.length, MAX_TRANSACTION_ACTIONS - orderPuts.length);
+        const leadingItemPuts = itemPuts.slice(0, itemPuts.length - finalItemCount);
+        const transactions = [
+            ...chunk(leadingItemPuts, MAX_TRANSACTION_ACTIONS),
+            [...itemPuts.slice(leadingItemPuts.length), ...orderPuts]
+        ];
+
+        for (const transactItems of transactions) {
+            await dynamoDB.send(new TransactWriteCommand({ TransactItems: transactItems }));
+        }
     } catch (error) {
+        if (error instanceof TransactionCanceledException
+            && error.CancellationReasons?.some(reason => reason.Code === 'ConditionalCheckFailed')) {
+            logger.warn(`Order ${orderId} was already stored, not storing it again`);
+            throw new OrderAlreadyExistsError(`Order ${orderId} already exists`);
+        }
         logger.error(`Failed to add order to database:`, error instanceof Error ? error : String(error));
         throw error;
     }
@@ -77,38 +182,164 @@ const addOrderToDatabase = async (orderId: string, userId: string, items: OrderI
     return orderItemRecords;
 };
 
+// Best effort, a failed void leaves the authorization to expire at the provider
+const voidAuthorization = async (orderId: string, authorizationId: string, amount: number): Promise<void> => {
+    try {
+        await payments.void(authorizationId, amount, `${orderId}:void`);
+        logger.info(`Voided payment authorization of order ${orderId}`);
+    } catch (error) {
+        logger.error(`Failed to void payment authorization of order ${orderId}:`, error instanceof Error ? error : String(error));
+    }
+};
+
 // we're using Lambda Powertools idempotency to prevent duplicate orders from being submitted
-export const handler = makeIdempotent(
-    async (event: OrderEvent, _context: Context): Promise<APIGatewayProxyResult> => {
+// only the order is hashed, so a retried submission with a new correlation id gets the original response back
+const processOrder = makeIdempotent(
+    async (event: OrderEvent, context: Context, correlationId: string): Promise<APIGatewayProxyResult> => {
         const orderItems = event.orderItems;
         const orderId = event.orderId;
         const userId = event.userId;
-        const orderStatus = event.orderStatus;
+        // orders for a later time wait as SCHEDULED until they are released, the others start their lifecycle as PENDING
+        // and item outcomes move them along from there. An order for a time that has passed is processed straight away.
+        const delaySeconds = event.scheduledFor ? secondsUntil(event.scheduledFor) : 0;
+        const schedule = delaySeconds > 0 ? { scheduledFor: event.scheduledFor as string, delaySeconds } : undefined;
+        const orderStatus = schedule ? OrderStatus.SCHEDULED : OrderStatus.PENDING;
+        // the priority routes every item of the order to the same lane
+        const priority = event.priority ?? OrderPriority.NORMAL;
+        const lane = priorityLanes[priority];
 
-        // a real world application would probably process payment here
-        // but for this example we'll just add the order to the database
-        const orderItemRecords = await addOrderToDatabase(orderId, userId, orderItems, orderStatus);
+        const totalValue = orderItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
 
-        logger.info(`Adding order items to DynamoDB for order ${orderId}`);
-        logger.info(`Order items: ${JSON.stringify(orderItems)}`);
-        
+        // Once the idempotency record has expired, or when the payload differs, the same order id can be submitted again.
+        // Each submission gets its own timestamp, so the order row can't catch that on its own. The conditions of the
+        // transaction catch the submissions that race this check.
+        if (await findOrder(dynamoDB, orderId)) {
+            logger.warn(`Order ${orderId} already exists`);
+            return orderAlreadyExists(orderId);
+        }
 
-        // Send each item as a separate message for individual processing
-        const messagePromises = orderItemRecords.map((itemMessage, index) => 
-            sqs.send(new SendMessageCommand({
-                QueueUrl: process.env.ORDERS_FIFO_QUEUE_URL as string,
-                MessageBody: JSON.stringify(itemMessage),
-                MessageGroupId: itemMessage.orderId,
-                MessageDeduplicationId: `${itemMessage.itemId}-${Date.now()}-${index}`,
-            }))
-        );
+        // the payment is authorized before anything is stored, so a declined order never has its items enqueued
+        // a submission that is retried after its authorization was voided needs a new one, so the request id is part of the key
+        const authorization = await payments.authorize({
+            orderId,
+            userId,
+            amount: toCents(totalValue),
+            idempotencyKey: `${orderId}:${context.awsRequestId}`
+        });
+        if (authorization.status === 'DECLINED') {
+            logger.warn(`Payment for order ${orderId} was declined`, { reason: authorization.reason, totalValue });
+            return {
+                statusCode: 402,
+                body: JSON.stringify({ message: 'Payment declined', orderId, reason: authorization.reason })
+            };
+        }
+        logger.info(`Authorized payment of ${totalValue.toFixed(2)} for order ${orderId}`, { transactionId: authorization.transactionId });
+
+        let orderItemRecords: OrderItemRecord[];
+        try {
+            orderItemRecords = await addOrderToDatabase(
+                orderId,
+                userId,
+                orderItems,
+                orderStatus,
+                buildPaymentTransaction('AUTHORIZATION', authorization.transactionId, authorization.amount),
+                correlationId,
+                priority,
+                lane,
+                event.customerEmail,
+                schedule
+            );
+        } catch (error) {
+            // the order wasn't stored, so it will never be settled, release the authorization instead
+            await voidAuthorization(orderId, authorization.transactionId, authorization.amount);
+            if (error instanceof OrderAlreadyExistsError) {
+                return orderAlreadyExists(orderId);
+            }
+            throw error;
+        }
+
+        logger.info(`Added order ${orderId} and its outbox entry to DynamoDB`, { priority, lane, orderStatus, scheduledFor: schedule?.scheduledFor });
+        metrics.addMetric(MetricName.ORDERS_ACCEPTED, MetricUnit.Count, 1);
+        logger.info(`Order items: ${JSON.stringify(orderItems)}`);
 
-        await Promise.all(messagePromises);
+        // the order is stored at this point, so a failed email doesn't fail the order
+        if (event.customerEmail) {
+            await notifyOrderReceived(ses, dynamoDB, {
+                orderId,
+                customerEmail: event.customerEmail,
+                items: orderItems,
+                totalValue
+            });
+        }
         
+        // The items are stored with their messages in the outbox, which the OutboxRelay sends to the queue after this
+        // response. They haven't been queued yet, and an entry the relay can't send ends up on its failures queue.
         return {
             statusCode: 200,
-            body: JSON.stringify({ message: 'Orders processed successfully' })
+            body: JSON.stringify({
+                message: 'Orders processed successfully',
+                orderId,
+                correlationId,
+                lane,
+                orderStatus,
+                ...(schedule ? { scheduledFor: schedule.scheduledFor } : {}),
+                acceptedItems: orderItemRecords.map(item => item.itemId)
+            })
         };
     }, {
         persistenceStore,
+});
+
+// Requests from API Gateway carry the order in the body, direct invocations pass the order as the event
+const isApiGatewayEvent = (event: unknown): event is APIGatewayProxyEvent =>
+    typeof event === 'object' && event !== null && 'httpMethod' in event && 'body' in event;
+
+const parseApiGatewayBody = (event: APIGatewayProxyEvent): unknown => {
+    const body = event.isBase64Encoded && event.body ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+    return JSON.parse(body ?? '');
+};
+
+// Callers can pass their own correlation id in the X-Correlation-Id header, otherwise the request id is used
+const requestCorrelationId = (event: unknown, context: Context): string => {
+    if (!isApiGatewayEvent(event)) {
+        return context.awsRequestId;
+    }
+    const header = Object.entries(event.headers ?? {})
+        .find(([name, value]) => name.toLowerCase() === 'x-correlation-id' && value)?.[1];
+    return header ?? event.requestContext?.requestId ?? context.awsRequestId;
+};
+
+// Orders are validated before the idempotency check so that invalid payloads are never cached
+export const handler = instrumentHandler(tracer, metrics, async (event: unknown, context: Context): Promise<APIGatewayProxyResult> => {
+    const correlationId = requestCorrelationId(event, context);
+    logger.appendKeys({ correlationId });
+    tracer.putAnnotation('correlationId', correlationId);
+
+    let order = event;
+    if (isApiGatewayEvent(event)) {
+        try {
+            order = parseApiGatewayBody(event);
+        } catch {
+            return {
+                statusCode: 400,
+                body: JSON.stringify({ message: 'Invalid order', errors: [{ field: '', message: 'request body must be valid JSON' }] })
+            };
+        }
+    }
+
+    const validation = validateOrderEvent(order, validationOptions);
+
+    if (!validation.valid) {
+        logger.warn('Rejecting invalid order', { errors: validation.errors });
+        return {
+            statusCode: 400,
+            body: JSON.stringify({ message: 'Invalid order', errors: validation.errors })
+        };
+    }
+
+    if (validation.strippedFields.length > 0) {
+        logger.info('Ignoring unknown order fields', { fields: validation.strippedFields });
+    }
+
+    return processOrder(validation.order, context, correlationId);
 });
\ No newline at end of file
@@ -0,0 +1,243 @@
+import { isOrderPriority, OrderPriority } from '../shared/lanes';
+
+// Runtime validation and normalization of incoming orders.
+// Every invalid field is collected so the caller gets the full list of problems in a single response.
+
+export interface OrderItem {
+    itemId: string;
+    // the product whose stock is reserved, defaults to the item id
+    sku: string;
+    itemDetail: string;
+    quantity: number;
+    price: number;
+}
+
+export interface OrderEvent {
+    orderItems: OrderItem[];
+    orderId: string;
+    userId: string;
+    // where the order notifications are sent, orders without one don't get any emails
+    customerEmail?: string;
+    // picks the lane the items are processed in, orders without one are normal priority
+    priority?: OrderPriority;
+    // the items are held back until this time, for orders that are picked up later
+    scheduledFor?: string;
+}
+
+export interface FieldError {
+    field: string;
+    message: string;
+}
+
+// 'reject' fails validation on unknown fields, 'strip' silently drops them
+export type UnknownFieldPolicy = 'reject' | 'strip';
+
+export interface ValidationOptions {
+    maxItems: number;
+    unknownFields: UnknownFieldPolicy;
+    // how far ahead an order can be scheduled
+    maxScheduleDays: number;
+}
+
+export type ValidationResult =
+    | { valid: true; order: OrderEvent; strippedFields: string[] }
+    | { valid: false; errors: FieldError[] };
+
+// orderStatus is still accepted for older clients but is ignored, the order lifecycle is owned by the server
+const ORDER_FIELDS = ['orderId', 'userId', 'customerEmail', 'priority', 'scheduledFor', 'orderItems', 'orderStatus'];
+// name is accepted as an alias for itemDetail
+const ITEM_FIELDS = ['itemId', 'sku', 'itemDetail', 'name', 'quantity', 'price'];
+
+// ids end up in DynamoDB keys and SQS deduplication ids, so keep them to a safe character set. '#' is left out
+// because it separates the parts of a deduplication id, see shared/outbox.ts
+const ID_PATTERN = /^[A-Za-z0-9_.:-]+$/;
+const MAX_ID_LENGTH = 64;
+
+// a loose check, SES rejects anything it can't deliver to
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_EMAIL_LENGTH = 254;
+
+// an ISO 8601 date and time with a time zone, so it means the same moment wherever the order comes from
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateId = (value: unknown, field: string, errors: FieldError[]): string | undefined => {
+    if (typeof value !== 'string' || value.trim().length === 0) {
+        errors.push({ field, message: 'is required and must be a non-empty string' });
+        return undefined;
+    }
+    if (value.length > MAX_ID_LENGTH) {
+        errors.push({ field, message: `must be at most ${MAX_ID_LENGTH} characters` });
+        return undefined;
+    }
+    if (!ID_PATTERN.test(value)) {
+        errors.push({ field, message: 'may only contain letters, numbers and the characters _ . : -' });
+        return undefined;
+    }
+    return value;
+};
+
+const validateEmail = (value: unknown, field: string, errors: FieldError[]): string | undefined => {
+    if (typeof value !== 'string' || !EMAIL_PATTERN.test(value)) {
+        errors.push({ field, message: 'must be a valid email address' });
+        return undefined;
+    }
+    if (value.length > MAX_EMAIL_LENGTH) {
+        errors.push({ field, message: `must be at most ${MAX_EMAIL_LENGTH} characters` });
+        return undefined;
+    }
+    return value;
+};
+
+const validatePriority = (value: unknown, field: string, errors: FieldError[]): OrderPriority | undefined => {
+    if (!isOrderPriority(value)) {
+        errors.push({ field, message: `must be one of ${Object.values(OrderPriority).join(', ')}` });
+        return undefined;
+    }
+    return value;
+};
+
+// Normalized to UTC, so scheduled orders sort by the time they are due
+const validateScheduledFor = (value: unknown, field: string, maxScheduleDays: number, errors: FieldError[]): string | undefined => {
+    const time = typeof value === 'string' && DATE_TIME_PATTERN.test(value) ? Date.parse(value) : NaN;
+    if (Number.isNaN(time)) {
+        errors.push({ field, message: 'must be an ISO 8601 date and time with a time zone, such as 2025-09-12T10:00:00Z' });
+        return undefined;
+    }
+    if (time > Date.now() + maxScheduleDays * DAY_MS) {
+        errors.push({ field, message: `must be at most ${maxScheduleDays} days ahead` });
+        return undefined;
+    }
+    return new Date(time).toISOString();
+};
+
+const checkUnknownFields = (
+    value: Record<string, unknown>,
+    knownFields: string[],
+    path: string,
+    options: ValidationOptions,
+    errors: FieldError[],
+    strippedFields: string[]
+): void => {
+    for (const key of Object.keys(value)) {
+        if (knownFields.includes(key)) {
+            continue;
+        }
+        const field = path ? `${path}.${key}` : key;
+        if (options.unknownFields === 'reject') {
+            errors.push({ field, message: 'is not a recognized field' });
+        } else {
+            strippedFields.push(field);
+        }
+    }
+};
+
+const validateItem = (
+    value: unknown,
+    index: number,
+    orderId: string | undefined,
+    options: ValidationOptions,
+    errors: FieldError[],
+    strippedFields: string[]
+): OrderItem | undefined => {
+    const path = `orderItems[${index}]`;
+    if (!isObject(value)) {
+        errors.push({ field: path, message: 'must be an object' });
+        return undefined;
+    }
+    const errorCount = errors.length;
+
+    checkUnknownFields(value, ITEM_FIELDS, path, options, errors, strippedFields);
+
+    // use the client supplied itemId when there is one, otherwise generate one from the order
+    const itemId = value.itemId === undefined
+        ? (orderId ? `${orderId}-item-${index}` : undefined)
+        : validateId(value.itemId, `${path}.itemId`, errors);
+    const sku = value.sku === undefined ? itemId : validateId(value.sku, `${path}.sku`, errors);
+
+    // map the client facing name onto itemDetail
+    if (value.itemDetail !== undefined && value.name !== undefined && value.itemDetail !== value.name) {
+        errors.push({ field: `${path}.name`, message: 'conflicts with itemDetail, only one of them should be supplied' });
+    }
+    const itemDetail = value.itemDetail ?? value.name;
+    if (typeof itemDetail !== 'string' || itemDetail.trim().length === 0) {
+        errors.push({ field: `${path}.itemDetail`, message: 'is required and must be a non-empty string (itemDetail or name)' });
+    }
+
+    const quantity = value.quantity;
+    if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity <= 0) {
+        errors.push({ field: `${path}.quantity`, message: 'must be a positive integer' });
+    }
+
+    const price = value.price;
+    if (typeof price !== 'number' || !Number.isFinite(price) || price < 0) {
+        errors.push({ field: `${path}.price`, message: 'must be a non-negative number' });
+    }
+
+    if (errors.length > errorCount || !itemId || !sku) {
+        return undefined;
+    }
+
+    return {
+        itemId,
+        sku,
+        itemDetail: (itemDetail as string).trim(),
+        quantity: quantity as number,
+        price: price as number,
+    };
+};
+
+export const validateOrderEvent = (input: unknown, options: ValidationOptions): ValidationResult => {
+    const errors: FieldError[] = [];
+    const strippedFields: string[] = [];
+
+    if (!isObject(input)) {
+        return { valid: false, errors: [{ field: '', message: 'order must be a JSON object' }] };
+    }
+
+    checkUnknownFields(input, ORDER_FIELDS, '', options, errors, strippedFields);
+
+    const orderId = validateId(input.orderId, 'orderId', errors);
+    const userId = validateId(input.userId, 'userId', errors);
+    const customerEmail = input.customerEmail === undefined ? undefined : validateEmail(input.customerEmail, 'customerEmail', errors);
+    const priority = input.priority === undefined ? undefined : validatePriority(input.priority, 'priority', errors);
+    const scheduledFor = input.scheduledFor === undefined
+        ? undefined
+        : validateScheduledFor(input.scheduledFor, 'scheduledFor', options.maxScheduleDays, errors);
+
+    const orderItems: OrderItem[] = [];
+    if (!Array.isArray(input.orderItems) || input.orderItems.length === 0) {
+        errors.push({ field: 'orderItems', message: 'must be a non-empty array' });
+    } else if (input.orderItems.length > options.maxItems) {
+        errors.push({ field: 'orderItems', message: `must contain at most ${options.maxItems} items` });
+    } else {
+        input.orderItems.forEach((value, index) => {
+            const item = validateItem(value, index, orderId, options, errors, strippedFields);
+            if (item) {
+                orderItems.push(item);
+            }
+        });
+
+        // item ids are the sort key of the OrderItemsTable so they must be unique within an order
+        const seen = new Set<string>();
+        orderItems.forEach(item => {
+            if (seen.has(item.itemId)) {
+                errors.push({ field: 'orderItems', message: `contains duplicate itemId ${item.itemId}` });
+            }
+            seen.add(item.itemId);
+        });
+    }
+
+    if (errors.length > 0 || !orderId || !userId) {
+        return { valid: false, errors };
+    }
+
+    return {
+        valid: true,
+        order: { orderId, userId, ...(customerEmail ? { customerEmail } : {}), ...(priority ? { priority } : {}), ...(scheduledFor ? { scheduledFor } : {}), orderItems },
+        strippedFields
+    };
+};
@@ -0,0 +1,218 @@
+import { SSMClient, GetParameterCommand, ParameterNotFound } from '@aws-sdk/client-ssm';
+import type { SQSRecord } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+
+// Since this is a demo, we simulate failures to demonstrate SQS retries and the DLQ.
+// Failures are described by rules so that every scenario can be reproduced on demand.
+//
+// Rules are loaded from the first of these sources that is set:
+// 1. the FailureRules message attribute on the SQS message
+// 2. the SSM parameter named by FAILURE_RULES_PARAMETER
+// 3. the FAILURE_RULES environment variable
+// 4. DEFAULT_FAILURE_RULES below
+
+export type FailureMode = 'always' | 'first-n-attempts' | 'probability' | 'latency' | 'timeout';
+
+export interface FailureRule {
+    name?: string;
+    // regular expressions, every one that is set has to match for the rule to apply
+    match: {
+        itemId?: string;
+        itemDetail?: string;
+        orderId?: string;
+    };
+    mode: FailureMode;
+    // first-n-attempts: the number of attempts that fail before the item succeeds
+    attempts?: number;
+    // probability: the chance of failing each attempt, made repeatable by the seed
+    probability?: number;
+    seed?: string;
+    // latency: the delay added before processing continues
+    latencyMs?: number;
+}
+
+export interface FailureTarget {
+    orderId: string;
+    itemId: string;
+    itemDetail: string;
+    // the ApproximateReceiveCount of the message, starting at 1
+    attempt: number;
+    remainingTimeInMillis: number;
+}
+
+export class SimulatedFailureError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SimulatedFailureError';
+    }
+}
+
+// Items ending in '3' always fail and end up on the DLQ, items ending in '1' fail on their first attempt and succeed on the retry
+export const DEFAULT_FAILURE_RULES: FailureRule[] = [
+    { name: 'always-fail', match: { itemId: '3$' }, mode: 'always' },
+    { name: 'retry-then-succeed', match: { itemId: '1$' }, mode: 'first-n-attempts', attempts: 1 },
+];
+
+const FAILURE_MODES: FailureMode[] = ['always', 'first-n-attempts', 'probability', 'latency', 'timeout'];
+const PARAMETER_CACHE_MS = 30 * 1000;
+
+const ssm = new SSMClient({});
+const logger = new Logger({ serviceName: 'orderProcessor' });
+
+let cachedParameter: { rules: FailureRule[] | undefined; expiresAt: number } | undefined;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isPattern = (value: unknown): boolean => {
+    if (typeof value !== 'string') {
+        return false;
+    }
+    try {
+        new RegExp(value);
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const isNumberBetween = (value: unknown, min: number, max = Infinity): boolean =>
+    typeof value === 'number' && value >= min && value <= max;
+
+// The reason a rule is invalid, checked up front so that a bad pattern can't fail every item that is processed
+const failureRuleError = (value: unknown): string | undefined => {
+    if (typeof value !== 'object' || value === null) {
+        return 'a rule must be an object';
+    }
+    const rule = value as Record<string, unknown>;
+    if (!FAILURE_MODES.includes(rule.mode as FailureMode)) {
+        return `mode must be one of ${FAILURE_MODES.join(', ')}`;
+    }
+    if (typeof rule.match !== 'object' || rule.match === null) {
+        return 'match must be an object';
+    }
+    const invalidPattern = Object.entries(rule.match).find(([, pattern]) => pattern !== undefined && !isPattern(pattern));
+    if (invalidPattern) {
+        return `match.${invalidPattern[0]} must be a valid regular expression`;
+    }
+    if (rule.attempts !== undefined && !(Number.isInteger(rule.attempts) && isNumberBetween(rule.attempts, 0))) {
+        return 'attempts must be a whole number of at least 0';
+    }
+    if (rule.probability !== undefined && !isNumberBetween(rule.probability, 0, 1)) {
+        return 'probability must be between 0 and 1';
+    }
+    if (rule.latencyMs !== undefined && !isNumberBetween(rule.latencyMs, 0)) {
+        return 'latencyMs must be at least 0';
+    }
+    if (rule.seed !== undefined && typeof rule.seed !== 'string') {
+        return 'seed must be a string';
+    }
+    return undefined;
+};
+
+// Parse a JSON list of rules, returning undefined when it isn't valid so the next source is used instead
+export const parseFailureRules = (json: string | undefined, source: string): FailureRule[] | undefined => {
+    if (!json) {
+        return undefined;
+    }
+    let rules: unknown;
+    try {
+        rules = JSON.parse(json);
+    } catch {
+        logger.warn(`Ignoring failure rules from ${source}, they are not valid JSON`);
+        return undefined;
+    }
+    if (!Array.isArray(rules)) {
+        logger.warn(`Ignoring failure rules from ${source}, expected a list of rules`);
+        return undefined;
+    }
+    for (const [index, rule] of rules.entries()) {
+        const error = failureRuleError(rule);
+        if (error) {
+            logger.warn(`Ignoring failure rules from ${source}, rule ${index} is not valid: ${error}`);
+            return undefined;
+        }
+    }
+    return rules as FailureRule[];
+};
+
+// The parameter is cached for a short time so it isn't fetched for every message
+const loadParameterRules = async (): Promise<FailureRule[] | undefined> => {
+    const name = process.env.FAILURE_RULES_PARAMETER;
+    if (!name) {
+        return undefined;
+    }
+    if (cachedParameter && cachedParameter.expiresAt > Date.now()) {
+        return cachedParameter.rules;
+    }
+
+    let rules: FailureRule[] | undefined;
+    try {
+        const result = await ssm.send(new GetParameterCommand({ Name: name }));
+        rules = parseFailureRules(result.Parameter?.Value, `SSM parameter ${name}`);
+    } catch (error) {
+        if (!(error instanceof ParameterNotFound)) {
+            logger.error(`Failed to load failure rules from SSM parameter ${name}:`, error instanceof Error ? error : String(error));
+        }
+    }
+
+    cachedParameter = { rules, expiresAt: Date.now() + PARAMETER_CACHE_MS };
+    return rules;
+};
+
+export const loadFailureRules = async (record: SQSRecord): Promise<FailureRule[]> =>
+    parseFailureRules(record.messageAttributes?.FailureRules?.stringValue, 'message attribute')
+        ?? await loadParameterRules()
+        ?? parseFailureRules(process.env.FAILURE_RULES, 'FAILURE_RULES environment variable')
+        ?? DEFAULT_FAILURE_RULES;
+
+const matches = (rule: FailureRule, target: FailureTarget): boolean =>
+    (!rule.match.itemId || new RegExp(rule.match.itemId).test(target.itemId)) &&
+    (!rule.match.itemDetail || new RegExp(rule.match.itemDetail).test(target.itemDetail)) &&
+    (!rule.match.orderId || new RegExp(rule.match.orderId).test(target.orderId));
+
+// FNV-1a hash mapped onto [0, 1), so the same seed, item and attempt always give the same result
+export const seededRandom = (seed: string): number => {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < seed.length; index++) {
+        hash ^= seed.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0) / 0x100000000;
+};
+
+// Apply every rule that matches the item. Latency rules delay processing, the other modes throw a SimulatedFailureError.
+export const injectFailures = async (rules: FailureRule[], target: FailureTarget): Promise<void> => {
+    for (const rule of rules.filter(candidate => matches(candidate, target))) {
+        const ruleName = rule.name ?? rule.mode;
+
+        switch (rule.mode) {
+            case 'always':
+                throw new SimulatedFailureError(`Simulated processing failure for item ${target.itemId} (${ruleName})`);
+
+            case 'first-n-attempts':
+                if (target.attempt <= (rule.attempts ?? 1)) {
+                    throw new SimulatedFailureError(`Simulated failure for item ${target.itemId} on attempt ${target.attempt} (${ruleName})`);
+                }
+                break;
+
+            case 'probability': {
+                const roll = seededRandom(`${rule.seed ?? ''}:${target.orderId}:${target.itemId}:${target.attempt}`);
+                if (roll < (rule.probability ?? 0.5)) {
+                    throw new SimulatedFailureError(`Simulated random failure for item ${target.itemId} on attempt ${target.attempt} (${ruleName})`);
+                }
+                break;
+            }
+
+            case 'latency':
+                logger.info(`Injecting ${rule.latencyMs ?? 0}ms of latency for item ${target.itemId} (${ruleName})`);
+                await sleep(rule.latencyMs ?? 0);
+                break;
+
+            case 'timeout':
+                // wait out the rest of the invocation so Lambda times out, the whole batch is then retried
+                logger.warn(`Simulating a timeout for item ${target.itemId} (${ruleName})`);
+                await sleep(target.remainingTimeInMillis + 1000);
+                throw new SimulatedFailureError(`Simulated timeout for item ${target.itemId} (${ruleName})`);
+        }
+    }
+};
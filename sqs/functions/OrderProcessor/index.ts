@@ -1,78 +1,105 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, UpdateCommand, GetCommand, QueryCommand } from '@aws-sdk/lib-dynamodb';
-import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
-import type { SQSEvent, SQSRecord, Context } from 'aws-lambda';
+import { DynamoDBDocumentClient, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { SESClient } from '@aws-sdk/client-ses';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import type { SQSEvent, SQSRecord, SQSBatchItemFailure, SQSBatchResponse, Context } from 'aws-lambda';
 import { Logger } from '@aws-lambda-powertools/logger';
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { buildItemOutcomeEvent, buildOrderCompletedEvent, emitDomainEvents } from '../shared/domainEvents';
+import { laneOf } from '../shared/lanes';
+import { releaseOrderReservations, releaseStoredItemReservation, reserveInventory, type ReservationResult } from '../shared/inventory';
+import { notifyOrderFinished } from '../shared/notifications';
+import { correlationIdOf, instrumentHandler, MetricName, MetricService, traceRecord } from '../shared/observability';
+import { createPaymentProvider } from '../shared/payments';
+import { settleOrderPayment, settlePaymentIfDue } from '../shared/settlement';
+import { injectFailures, loadFailureRules } from './failureInjection';
+import {
+    cancelPendingItem,
+    ItemStatus,
+    markOrderProcessing,
+    OrderStatus,
+    recordItemOutcome,
+    refreshOrderStatus,
+    type ItemOutcomeResult,
+    type OrderKey
+} from '../shared/orderStatus';
 
 interface OrderItemMessage {
     orderId: string;
     userId: string;
     itemId: string;
+    sku?: string;
     itemDetail: string;
     quantity: number;
     price: number;
     timestamp: string;
 }
 
-const dynamoDBClient = new DynamoDBClient({});
+const tracer = new Tracer({ serviceName: MetricService.ORDER_PROCESSOR });
+// every lane has its own OrderProcessor, so the metrics carry the lane to tell them apart
+const lane = laneOf({ lane: process.env.LANE });
+const metrics = new Metrics({ serviceName: MetricService.ORDER_PROCESSOR, defaultDimensions: { lane } });
+const dynamoDBClient = tracer.captureAWSv3Client(new DynamoDBClient({}));
 const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
-const sqs = new SQSClient({});
-const logger = new Logger({ serviceName: 'orderProcessor' });
+const ses = tracer.captureAWSv3Client(new SESClient({}));
+const eventBridge = tracer.captureAWSv3Client(new EventBridgeClient({}));
+const payments = createPaymentProvider();
+const logger = new Logger({ serviceName: 'orderProcessor', persistentKeys: { lane } });
 
-// Since this is a demo, we're going to simulate some failures to demonstrate SQS retries and DLQ
-const shouldSimulateFailure = (itemId: string): boolean => {
-    const lastDigit = itemId.slice(-1);
-    
-    // Items ending in '3' always fail and end up on the DLQ
-    if (lastDigit === '3') {
-        return true;
-    }
-    
-    // Items ending in '1' fail 50% of the time and will be retried
-    if (lastDigit === '1') {
-        return Math.random() < 0.5;
-    }
-    
-    // All other items succeed
-    return false;
-};
-
-// Since this is a demo, we're only simulating actual processing by adding a slight delay
-const processOrderItem = async (itemMessage: OrderItemMessage): Promise<void> => {
+// Reserve the stock for the item, then run the simulated failures to demonstrate retries and the DLQ.
+// A retried message finds its stock already reserved, so the reservation is only made once.
+const processOrderItem = async (
+    itemMessage: OrderItemMessage,
+    orderKey: OrderKey,
+    record: SQSRecord,
+    context: Context
+): Promise<ReservationResult> => {
     logger.info(`Processing item ${itemMessage.itemId} (${itemMessage.itemDetail}) for order ${itemMessage.orderId}`);
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
+
+    const reservation = await reserveInventory(dynamoDB, orderKey, itemMessage);
+    if (reservation !== 'RESERVED' && reservation !== 'ALREADY_RESERVED') {
+        return reservation;
+    }
     
     // We're simulating failures to demonstrate retries and DLQ
-    if (shouldSimulateFailure(itemMessage.itemId)) {
-        const error = new Error(`Simulated processing failure for item ${itemMessage.itemId}`);
-        logger.error(`Processing failed for item ${itemMessage.itemId}:`, error.message);
+    try {
+        const rules = await loadFailureRules(record);
+        await injectFailures(rules, {
+            orderId: itemMessage.orderId,
+            itemId: itemMessage.itemId,
+            itemDetail: itemMessage.itemDetail,
+            attempt: Number(record.attributes.ApproximateReceiveCount),
+            remainingTimeInMillis: context.getRemainingTimeInMillis()
+        });
+    } catch (error) {
+        logger.error(`Processing failed for item ${itemMessage.itemId}:`, error instanceof Error ? error.message : String(error));
         throw error;
     }
     
     logger.info(`Successfully processed item ${itemMessage.itemId}`);
+    return reservation;
 };
 
-// Update individual item status in DynamoDB
-const updateItemStatus = async (orderId: string, itemId: string, status: string): Promise<void> => {
+// Update individual item status in DynamoDB and count it against the order, publishing the
+// ItemProcessed or ItemFailed event once the outcome is recorded
+const updateItemStatus = async (
+    orderKey: OrderKey,
+    itemMessage: OrderItemMessage,
+    status: typeof ItemStatus.PROCESSED | typeof ItemStatus.OUT_OF_STOCK,
+    correlationId?: string
+): Promise<ItemOutcomeResult> => {
+    const itemId = itemMessage.itemId;
     try {
         logger.info(`Updating item ${itemId} status to: ${status}`);
         
-        await dynamoDB.send(new UpdateCommand({
-            TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
-            Key: {
-                orderId,
-                itemId
-            },
-            UpdateExpression: 'SET itemStatus = :status, processedAt = :processedAt',
-            ExpressionAttributeValues: {
-                ':status': status,
-                ':processedAt': new Date().toISOString()
-            }
-        }));
+        const result = await recordItemOutcome(dynamoDB, orderKey, itemId, status);
 
-        logger.info(`Successfully updated item ${itemId} to status: ${status}`);
+        if (result === 'RECORDED') {
+            logger.info(`Successfully updated item ${itemId} to status: ${status}`);
+            await emitDomainEvents(eventBridge, [buildItemOutcomeEvent(itemMessage, status, correlationId)]);
+        }
+        return result;
         
     } catch (error) {
         logger.error(`Failed to update item status for ${itemId}:`, error instanceof Error ? error : String(error));
@@ -80,45 +107,137 @@ const updateItemStatus = async (orderId: string, itemId: string, status: string)
     }
 };
 
+// Roll the item outcomes up into the order status. When that finishes the order, its payment is settled,
+// the customer is emailed and the OrderCompleted event is published, and a FAILED order gives back the stock its items still hold.
+const refreshOrder = async (orderKey: OrderKey): Promise<void> => {
+    const change = await refreshOrderStatus(dynamoDB, orderKey);
+    if (!change) {
+        // a previous attempt may have finished the order but failed to settle it
+        await settlePaymentIfDue(dynamoDB, payments, orderKey);
+        return;
+    }
+    if (change.orderStatus === OrderStatus.FAILED) {
+        await releaseOrderReservations(dynamoDB, orderKey.orderId);
+    }
+    await settleOrderPayment(dynamoDB, payments, change.order);
+    await notifyOrderFinished(ses, dynamoDB, change);
+    await emitDomainEvents(eventBridge, [buildOrderCompletedEvent(change)]);
+};
+
+// Process the item of a single SQS record
+const processItemMessage = async (itemMessage: OrderItemMessage, record: SQSRecord, context: Context): Promise<void> => {
+    const correlationId = correlationIdOf(record);
+    // Check if item has already been processed
+    const existingItem = await dynamoDB.send(new GetCommand({
+        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+        Key: {
+            orderId: itemMessage.orderId,
+            itemId: itemMessage.itemId
+        }
+    }));
+
+    const orderKey: OrderKey = { orderId: itemMessage.orderId, timestamp: itemMessage.timestamp };
+
+    if (existingItem.Item && existingItem.Item.itemStatus === ItemStatus.PROCESSED) {
+        logger.info(`Item ${itemMessage.itemId} already processed, skipping`);
+        // a previous attempt may have stopped before rolling up the order status
+        await refreshOrder(orderKey);
+        return;
+    }
+
+    if (existingItem.Item && existingItem.Item.itemStatus === ItemStatus.FAILED) {
+        logger.info(`Item ${itemMessage.itemId} already failed, skipping`);
+        await refreshOrder(orderKey);
+        return;
+    }
+
+    if (existingItem.Item && existingItem.Item.itemStatus === ItemStatus.OUT_OF_STOCK) {
+        logger.info(`Item ${itemMessage.itemId} is out of stock, skipping`);
+        await refreshOrder(orderKey);
+        return;
+    }
+
+    if (existingItem.Item && existingItem.Item.itemStatus === ItemStatus.CANCELLED) {
+        logger.info(`Item ${itemMessage.itemId} was cancelled, skipping`);
+        return;
+    }
+
+    // Don't start work on items of an order that was cancelled before its items were
+    const orderStatus = await markOrderProcessing(dynamoDB, orderKey);
+    if (orderStatus === OrderStatus.CANCELLED) {
+        logger.info(`Order ${itemMessage.orderId} was cancelled, cancelling item ${itemMessage.itemId} instead of processing it`);
+        await cancelPendingItem(dynamoDB, itemMessage.orderId, itemMessage.itemId);
+        return;
+    }
+    
+    // If the item has not been processed, process it
+    const reservation = await processOrderItem(itemMessage, orderKey, record, context);
+
+    if (reservation === 'ORDER_CANCELLED') {
+        logger.info(`Order ${itemMessage.orderId} was cancelled, cancelling item ${itemMessage.itemId} instead of processing it`);
+        await cancelPendingItem(dynamoDB, itemMessage.orderId, itemMessage.itemId);
+        return;
+    }
+
+    if (reservation === 'ITEM_NOT_PENDING') {
+        logger.info(`Item ${itemMessage.itemId} is no longer PENDING, skipping`);
+        await refreshOrder(orderKey);
+        return;
+    }
+
+    // Items without enough stock aren't retried, they count against the order as failed
+    if (reservation === 'OUT_OF_STOCK') {
+        const outOfStock = await updateItemStatus(orderKey, itemMessage, ItemStatus.OUT_OF_STOCK, correlationId);
+        if (outOfStock === 'RECORDED') {
+            metrics.addMetric(MetricName.ITEMS_OUT_OF_STOCK, MetricUnit.Count, 1);
+        }
+        await refreshOrder(orderKey);
+        return;
+    }
+    
+    // If processing succeeds, update the item status to PROCESSED
+    const result = await updateItemStatus(orderKey, itemMessage, ItemStatus.PROCESSED, correlationId);
+
+    // The order was cancelled while this item was being processed. The item never became PROCESSED, so there's nothing
+    // to compensate, it's cancelled and gives back its stock. The release is guarded by the reservation status, so it
+    // doesn't give the stock back twice when the cancellation releases the reservations of the order at the same time.
+    if (result === 'ORDER_CANCELLED') {
+        logger.info(`Order ${itemMessage.orderId} was cancelled, cancelling item ${itemMessage.itemId} instead of processing it`);
+        await cancelPendingItem(dynamoDB, itemMessage.orderId, itemMessage.itemId);
+        await releaseStoredItemReservation(dynamoDB, itemMessage.orderId, itemMessage.itemId);
+        return;
+    }
+
+    if (result === 'RECORDED') {
+        metrics.addMetric(MetricName.ITEMS_PROCESSED, MetricUnit.Count, 1);
+        metrics.addMetric(MetricName.ITEM_PROCESSING_LATENCY, MetricUnit.Milliseconds, Date.now() - Date.parse(itemMessage.timestamp));
+    }
+
+    // Roll the item outcome up into the order status
+    await refreshOrder(orderKey);
+    
+    logger.info(`Item ${itemMessage.itemId} processed successfully`);
+};
+
 // Process a single SQS record
-const processRecord = async (record: SQSRecord): Promise<void> => {
+export const processRecord = async (record: SQSRecord, context: Context): Promise<void> => {
+    const correlationId = correlationIdOf(record);
     try {
         const itemMessage: OrderItemMessage = JSON.parse(record.body);
-        logger.info(`Received message for item ${itemMessage.itemId} in order ${itemMessage.orderId}`);
-        
-        // Check if item has already been processed
-        const existingItem = await dynamoDB.send(new GetCommand({
-            TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
-            Key: {
-                orderId: itemMessage.orderId,
-                itemId: itemMessage.itemId
-            }
-        }));
-
-        if (existingItem.Item && existingItem.Item.itemStatus === 'PROCESSED') {
-            logger.info(`Item ${itemMessage.itemId} already processed, skipping`);
-            return;
-        }
+        logger.info(`Received message for item ${itemMessage.itemId} in order ${itemMessage.orderId}`, { correlationId });
 
-        if (existingItem.Item && existingItem.Item.itemStatus === 'FAILED') {
-            logger.info(`Item ${itemMessage.itemId} already failed, skipping`);
-            return;
+        if (Number(record.attributes.ApproximateReceiveCount) > 1) {
+            metrics.addMetric(MetricName.ITEM_RETRIES, MetricUnit.Count, 1);
         }
-        
-        // If the item has not been processed, process it
-        await processOrderItem(itemMessage);
-        
-        // If processing succeeds, update the item status to PROCESSED
-        await updateItemStatus(itemMessage.orderId, itemMessage.itemId, 'PROCESSED');
 
-        // in a real application, we'd probably want to update the order status too
-        // we're not doing that here because we're simulating failures to demonstrate retries and DLQ
-        // so the full order will never be completed using the test data
-        
-        logger.info(`Item ${itemMessage.itemId} processed successfully`);
+        await traceRecord(tracer, 'processRecord', { correlationId, orderId: itemMessage.orderId, itemId: itemMessage.itemId },
+            () => processItemMessage(itemMessage, record, context));
         
     } catch (error) {
-        logger.error(`Failed to process record ${record.messageId}:`, error instanceof Error ? error : String(error));
+        logger.error(`Failed to process record ${record.messageId}:`, {
+            correlationId,
+            error: error instanceof Error ? error : String(error)
+        });
         
         // Re-throw the error to trigger SQS retry mechanism
         // After maxReceiveCount retries, the message will be moved to DLQ
@@ -126,14 +245,41 @@ const processRecord = async (record: SQSRecord): Promise<void> => {
     }
 };
 
-export const handler = async (event: SQSEvent, context: Context): Promise<void> => {
+// Process the records of a single message group in order. Once a record fails, the records after it
+// are not processed and are reported as failures too, so that the group is retried in its original order.
+const processMessageGroup = async (records: SQSRecord[], context: Context): Promise<SQSBatchItemFailure[]> => {
+    for (let index = 0; index < records.length; index++) {
+        try {
+            await processRecord(records[index], context);
+        } catch {
+            const failedRecords = records.slice(index);
+            if (failedRecords.length > 1) {
+                logger.warn(`Skipping ${failedRecords.length - 1} remaining messages in group ${records[index].attributes.MessageGroupId} to preserve ordering`);
+            }
+            return failedRecords.map(record => ({ itemIdentifier: record.messageId }));
+        }
+    }
+    return [];
+};
+
+export const handler = instrumentHandler(tracer, metrics, async (event: SQSEvent, context: Context): Promise<SQSBatchResponse> => {
     logger.info(`Processing ${event.Records.length} messages`);
     
-    // SQS can batch messages, but one error will cause the entire batch to fail
-    // so we're processing each message individually since we're simulating failures
-    await Promise.all(
-        event.Records.map(record => processRecord(record))
+    // Group the records by message group, keeping the order in which SQS delivered them
+    const messageGroups = new Map<string, SQSRecord[]>();
+    for (const record of event.Records) {
+        const groupId = record.attributes.MessageGroupId ?? record.messageId;
+        messageGroups.set(groupId, [...(messageGroups.get(groupId) ?? []), record]);
+    }
+
+    // Different message groups are independent of each other, so they are processed in parallel
+    // and only the failed records are reported back to SQS rather than failing the entire batch
+    const groupFailures = await Promise.all(
+        [...messageGroups.values()].map(records => processMessageGroup(records, context))
     );
+    const batchItemFailures = groupFailures.flat();
     
-    logger.info(`Successfully processed all ${event.Records.length} messages`);
-};
+    logger.info(`Processed ${event.Records.length - batchItemFailures.length} of ${event.Records.length} messages`);
+
+    return { batchItemFailures };
+});
@@ -0,0 +1,93 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { Context, ScheduledEvent, SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { correlationIdOf } from '../shared/observability';
+import type { OrderKey } from '../shared/orderStatus';
+import { releaseScheduledOrder, SCHEDULE_STATUS_SCHEDULED, SCHEDULED_INDEX } from '../shared/scheduling';
+
+// only the AWS calls are traced, the scheduler doesn't publish metrics of its own
+const tracer = new Tracer({ serviceName: 'orderScheduler' });
+const dynamoDBClient = tracer.captureAWSv3Client(new DynamoDBClient({}));
+const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
+const logger = new Logger({ serviceName: 'orderScheduler' });
+
+// Release every SCHEDULED order that is due, following the pagination of the scheduled-index.
+// The index is eventually consistent, so an order that was just released or cancelled can still be listed,
+// releaseScheduledOrder checks the order itself before releasing it.
+const releaseDueOrders = async (now = new Date().toISOString()): Promise<string[]> => {
+    const released: string[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const result = await dynamoDB.send(new QueryCommand({
+            TableName: process.env.ORDERS_TABLE_NAME as string,
+            IndexName: SCHEDULED_INDEX,
+            KeyConditionExpression: 'scheduleStatus = :scheduled AND scheduledFor <= :now',
+            ExpressionAttributeValues: {
+                ':scheduled': SCHEDULE_STATUS_SCHEDULED,
+                ':now': now
+            },
+            ExclusiveStartKey: exclusiveStartKey
+        }));
+
+        for (const order of result.Items ?? []) {
+            const key: OrderKey = { orderId: order.orderId, timestamp: order.timestamp };
+            try {
+                if (await releaseScheduledOrder(dynamoDB, key) === 'RELEASED') {
+                    released.push(key.orderId);
+                }
+            } catch (error) {
+                // the order stays in the index, so the next run tries it again
+                logger.error(`Failed to release order ${key.orderId}:`, error instanceof Error ? error : String(error));
+            }
+        }
+        exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return released;
+};
+
+// Release the orders of the delayed release messages, only the messages that failed are retried
+const releaseFromMessages = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+    const batchItemFailures: SQSBatchResponse['batchItemFailures'] = [];
+
+    for (const record of event.Records) {
+        let key: OrderKey;
+        try {
+            key = JSON.parse(record.body);
+        } catch (error) {
+            // a message that can't be parsed would fail on every retry, so it is only logged,
+            // the scheduled run still releases its order once it is due
+            logger.error(`Failed to parse release message ${record.messageId}:`, {
+                correlationId: correlationIdOf(record),
+                error: error instanceof Error ? error : String(error)
+            });
+            continue;
+        }
+        try {
+            await releaseScheduledOrder(dynamoDB, key);
+        } catch (error) {
+            logger.error(`Failed to release order ${key.orderId}:`, {
+                correlationId: correlationIdOf(record),
+                error: error instanceof Error ? error : String(error)
+            });
+            batchItemFailures.push({ itemIdentifier: record.messageId });
+        }
+    }
+
+    return { batchItemFailures };
+};
+
+// Invoked every minute by an EventBridge rule, and with the release messages of orders due within the SQS delay limit
+export const handler = async (event: ScheduledEvent | SQSEvent, _context: Context): Promise<SQSBatchResponse | { releasedOrders: string[] }> => {
+    if ('Records' in event) {
+        logger.info(`Processing ${event.Records.length} release messages`);
+        return releaseFromMessages(event);
+    }
+
+    const releasedOrders = await releaseDueOrders();
+    logger.info(`Released ${releasedOrders.length} due orders`, { releasedOrders });
+    return { releasedOrders };
+};
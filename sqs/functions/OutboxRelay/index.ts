@@ -0,0 +1,177 @@
+import { DynamoDBClient, ConditionalCheckFailedException, type AttributeValue } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { unmarshall } from '@aws-sdk/util-dynamodb';
+import { SQSClient, SendMessageBatchCommand, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { EventBridgeClient } from '@aws-sdk/client-eventbridge';
+import type { DynamoDBStreamEvent, DynamoDBRecord, DynamoDBBatchResponse, Context } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { Tracer } from '@aws-lambda-powertools/tracer';
+import { publishDomainEvents } from '../shared/domainEvents';
+import { laneOf, queueUrlFor, type Lane } from '../shared/lanes';
+import { correlationAttributes } from '../shared/observability';
+import { chunk, OutboxStatus, type OutboxEntry, type OutboxMessage } from '../shared/outbox';
+import { MAX_DELAY_SECONDS, secondsUntil, type ScheduledRelease } from '../shared/scheduling';
+
+// only the AWS calls are traced, the relay doesn't publish metrics of its own
+const tracer = new Tracer({ serviceName: 'outboxRelay' });
+const dynamoDBClient = tracer.captureAWSv3Client(new DynamoDBClient({}));
+const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
+const sqs = tracer.captureAWSv3Client(new SQSClient({}));
+const eventBridge = tracer.captureAWSv3Client(new EventBridgeClient({}));
+const logger = new Logger({ serviceName: 'outboxRelay' });
+
+const MAX_SEND_ATTEMPTS = 3;
+// SQS accepts at most 10 entries in a SendMessageBatch request
+const MAX_BATCH_ENTRIES = 10;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Send a chunk of messages as a single batch and retry only the entries that failed, with a short backoff.
+// The deduplication id stored in the outbox is reused on every attempt, so a message that was sent but not
+// acknowledged isn't queued twice. Returns the SQS message id of every item, or throws once an entry keeps failing.
+const sendBatchWithRetry = async (queueUrl: string, messages: OutboxMessage[]): Promise<Record<string, string>> => {
+    const sentMessages: Record<string, string> = {};
+    // batch entry ids only have to be unique within the request, so the position in the chunk is used
+    let pending = messages.map((message, index) => ({ id: String(index), message }));
+
+    for (let attempt = 1; ; attempt++) {
+        let failures: { id: string; message: OutboxMessage; reason: string }[];
+        try {
+            const result = await sqs.send(new SendMessageBatchCommand({
+                QueueUrl: queueUrl,
+                Entries: pending.map(({ id, message }) => ({
+                    Id: id,
+                    MessageBody: message.messageBody,
+                    MessageGroupId: message.messageGroupId,
+                    MessageDeduplicationId: message.deduplicationId,
+                    MessageAttributes: correlationAttributes(message.correlationId)
+                }))
+            }));
+
+            for (const successful of result.Successful ?? []) {
+                const entry = pending.find(candidate => candidate.id === successful.Id);
+                if (entry) {
+                    sentMessages[entry.message.itemId] = successful.MessageId as string;
+                }
+            }
+            failures = (result.Failed ?? []).flatMap(failed => {
+                const entry = pending.find(candidate => candidate.id === failed.Id);
+                return entry ? [{ ...entry, reason: `${failed.Code}: ${failed.Message}` }] : [];
+            });
+        } catch (error) {
+            // the whole request failed, so every entry is retried
+            failures = pending.map(entry => ({ ...entry, reason: error instanceof Error ? error.message : String(error) }));
+        }
+
+        if (failures.length === 0) {
+            return sentMessages;
+        }
+        for (const failure of failures) {
+            logger.warn(`Failed to send item ${failure.message.itemId} on attempt ${attempt}`, { reason: failure.reason });
+        }
+        if (attempt >= MAX_SEND_ATTEMPTS) {
+            throw new Error(`Failed to send items ${failures.map(failure => failure.message.itemId).join(', ')} after ${attempt} attempts`);
+        }
+
+        pending = failures.map(({ id, message }) => ({ id, message }));
+        await sleep(100 * 2 ** attempt);
+    }
+};
+
+// Send the release message of a scheduled order to the standard scheduled queue, delayed until the order is due.
+// A failed send is retried with the stream record, and a lost message only means the OrderScheduler releases the
+// order on its next run instead.
+const sendRelease = async (release: ScheduledRelease): Promise<Record<string, string>> => {
+    const result = await sqs.send(new SendMessageCommand({
+        QueueUrl: process.env.SCHEDULED_QUEUE_URL as string,
+        MessageBody: JSON.stringify({ orderId: release.orderId, timestamp: release.timestamp }),
+        DelaySeconds: Math.min(secondsUntil(release.scheduledFor), MAX_DELAY_SECONDS),
+        MessageAttributes: correlationAttributes(release.correlationId)
+    }));
+    return { release: result.MessageId as string };
+};
+
+// Mark the entry as SENT and record the message ids, so it is clear it has been published, the TTL cleans it up later
+const markEntrySent = async (outboxId: string, sentMessages: Record<string, string>): Promise<void> => {
+    try {
+        await dynamoDB.send(new UpdateCommand({
+            TableName: process.env.OUTBOX_TABLE_NAME as string,
+            Key: { outboxId },
+            UpdateExpression: 'SET outboxStatus = :sent, sentAt = :sentAt, sentMessages = :sentMessages',
+            ConditionExpression: 'outboxStatus = :pending',
+            ExpressionAttributeValues: {
+                ':sent': OutboxStatus.SENT,
+                ':pending': OutboxStatus.PENDING,
+                ':sentAt': new Date().toISOString(),
+                ':sentMessages': sentMessages
+            }
+        }));
+    } catch (error) {
+        // a previous attempt already marked it
+        if (error instanceof ConditionalCheckFailedException) {
+            return;
+        }
+        throw error;
+    }
+};
+
+// Publish the messages of a newly inserted outbox entry
+const relayRecord = async (record: DynamoDBRecord): Promise<void> => {
+    if (record.eventName !== 'INSERT' || !record.dynamodb?.NewImage) {
+        return;
+    }
+
+    const entry = unmarshall(record.dynamodb.NewImage as Record<string, AttributeValue>) as OutboxEntry;
+
+    // the events are published ahead of the messages, so an OrderPlaced event comes before the events of its items.
+    // A record that is retried publishes them again with the same event ids, which consumers use to drop the duplicates.
+    if (entry.events?.length) {
+        await publishDomainEvents(eventBridge, entry.events);
+    }
+
+    if (entry.release) {
+        await markEntrySent(entry.outboxId, await sendRelease(entry.release));
+        logger.info(`Relayed the release of order ${entry.orderId} scheduled for ${entry.release.scheduledFor}`);
+        return;
+    }
+    logger.info(`Relaying ${entry.messages.length} messages for outbox entry ${entry.outboxId}`);
+
+    // every message goes to the queue of its lane, an order's items normally share one lane
+    const messagesByLane = new Map<Lane, OutboxMessage[]>();
+    for (const message of entry.messages) {
+        const lane = laneOf(message);
+        messagesByLane.set(lane, [...(messagesByLane.get(lane) ?? []), message]);
+    }
+
+    // messages of an entry share a message group, so the chunks are sent one after the other to keep them in order.
+    // An entry that is retried can end up behind later items of its order, which is fine as items are processed independently.
+    const sentMessages: Record<string, string> = {};
+    for (const [lane, laneMessages] of messagesByLane) {
+        for (const messages of chunk(laneMessages, MAX_BATCH_ENTRIES)) {
+            Object.assign(sentMessages, await sendBatchWithRetry(queueUrlFor(lane), messages));
+        }
+    }
+
+    await markEntrySent(entry.outboxId, sentMessages);
+    logger.info(`Relayed outbox entry ${entry.outboxId} for order ${entry.orderId}`, { enqueuedItems: Object.keys(sentMessages) });
+};
+
+// Stream records are relayed in order. Once one fails, it and every record after it are reported as failures,
+// so the stream retries from that record and no entry is published ahead of an earlier one.
+export const handler = async (event: DynamoDBStreamEvent, _context: Context): Promise<DynamoDBBatchResponse> => {
+    logger.info(`Processing ${event.Records.length} outbox stream records`);
+
+    for (let index = 0; index < event.Records.length; index++) {
+        const record = event.Records[index];
+        try {
+            await relayRecord(record);
+        } catch (error) {
+            logger.error(`Failed to relay stream record ${record.dynamodb?.SequenceNumber}:`, error instanceof Error ? error : String(error));
+            return {
+                batchItemFailures: [{ itemIdentifier: record.dynamodb?.SequenceNumber as string }]
+            };
+        }
+    }
+
+    return { batchItemFailures: [] };
+};
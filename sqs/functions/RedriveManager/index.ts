@@ -0,0 +1,230 @@
+import { DynamoDBClient, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, PurgeQueueCommand, ReceiveMessageCommand } from '@aws-sdk/client-sqs';
+import type { Context } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { dlqUrlFor, isLane, Lane, laneOf } from '../shared/lanes';
+import { findOrder, listOrderItems } from '../shared/orders';
+import { ItemStatus, OrderStatus, type OrderKey } from '../shared/orderStatus';
+import { buildDeduplicationId, buildOutboxEntry } from '../shared/outbox';
+
+type RedriveRequest =
+    | { action: 'list-dlq'; lane?: Lane; maxMessages?: number }
+    | { action: 'list-failed'; limit?: number; nextToken?: string }
+    | { action: 'replay'; orderId: string; itemIds?: string[] }
+    | { action: 'purge-dlq'; lane?: Lane };
+
+interface ReplayResult {
+    itemId: string;
+    outcome: 'REPLAYED' | 'REFUSED';
+    reason?: string;
+    redriveCount?: number;
+}
+
+const dynamoDBClient = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
+const sqs = new SQSClient({});
+const logger = new Logger({ serviceName: 'redriveManager' });
+
+// Every lane has its own DLQ, the standard one is used when no lane is given
+const requestedLane = (lane?: string): Lane => {
+    if (lane === undefined) {
+        return Lane.STANDARD;
+    }
+    if (!isLane(lane)) {
+        throw new Error(`Unknown lane ${lane}, expected one of ${Object.values(Lane).join(', ')}`);
+    }
+    return lane;
+};
+
+// Peek at the messages on the DLQ. They are made visible again straight away so the DLQProcessor can still consume them.
+const listDlqMessages = async (lane: Lane, maxMessages = 10) => {
+    const result = await sqs.send(new ReceiveMessageCommand({
+        QueueUrl: dlqUrlFor(lane),
+        MaxNumberOfMessages: Math.min(Math.max(maxMessages, 1), 10),
+        VisibilityTimeout: 0,
+        MessageSystemAttributeNames: ['All']
+    }));
+
+    return {
+        lane,
+        messages: (result.Messages ?? []).map(message => ({
+            messageId: message.MessageId,
+            body: JSON.parse(message.Body ?? '{}'),
+            attributes: message.Attributes
+        }))
+    };
+};
+
+// List FAILED items across every order using the status-index
+const listFailedItems = async (limit = 20, nextToken?: string) => {
+    const result = await dynamoDB.send(new QueryCommand({
+        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+        IndexName: 'status-index',
+        KeyConditionExpression: 'itemStatus = :failed',
+        ExpressionAttributeValues: { ':failed': ItemStatus.FAILED },
+        Limit: limit,
+        ExclusiveStartKey: nextToken ? JSON.parse(Buffer.from(nextToken, 'base64url').toString('utf8')) : undefined
+    }));
+
+    return {
+        items: result.Items ?? [],
+        nextToken: result.LastEvaluatedKey ? Buffer.from(JSON.stringify(result.LastEvaluatedKey)).toString('base64url') : undefined
+    };
+};
+
+// Move a FAILED item back to PENDING, take it off the order's failed count and write its outbox entry in a single
+// transaction, so the item can't be reset without being queued again or queued without being reset.
+// Returns the reason when the item or order has changed in a way that means it can no longer be replayed.
+const resetItemForRedrive = async (
+    orderKey: OrderKey,
+    item: Record<string, any>,
+    redriveCount: number,
+    correlationId?: string
+): Promise<string | undefined> => {
+    const now = new Date().toISOString();
+    const previousRedriveCount = item.redriveCount ?? 0;
+
+    // each redrive is a new generation of the item, so it gets a fresh deduplication id
+    const outboxEntry = buildOutboxEntry(`${orderKey.orderId}#${item.itemId}#redrive-${redriveCount}`, orderKey.orderId, [{
+        itemId: item.itemId,
+        messageBody: JSON.stringify({
+            orderId: item.orderId,
+            itemId: item.itemId,
+            sku: item.sku,
+            itemDetail: item.itemDetail,
+            quantity: item.quantity,
+            price: item.price,
+            itemStatus: ItemStatus.PENDING,
+            timestamp: item.timestamp
+        }),
+        messageGroupId: orderKey.orderId,
+        deduplicationId: buildDeduplicationId(orderKey.orderId, item.itemId, redriveCount),
+        // the replayed message keeps the correlation id of the order, so its logs and traces line up with the original
+        correlationId,
+        lane: laneOf(item)
+    }]);
+
+    try {
+        await dynamoDB.send(new TransactWriteCommand({
+            TransactItems: [
+                {
+                    Update: {
+                        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+                        Key: { orderId: orderKey.orderId, itemId: item.itemId },
+                        UpdateExpression: 'SET itemStatus = :pending, redrivenAt = :now, redriveCount = :redriveCount REMOVE failedAt',
+                        ConditionExpression: previousRedriveCount === 0
+                            ? 'itemStatus = :failed AND attribute_not_exists(redriveCount)'
+                            : 'itemStatus = :failed AND redriveCount = :previousRedriveCount',
+                        ExpressionAttributeValues: {
+                            ':pending': ItemStatus.PENDING,
+                            ':failed': ItemStatus.FAILED,
+                            ':now': now,
+                            ':redriveCount': redriveCount,
+                            ...(previousRedriveCount === 0 ? {} : { ':previousRedriveCount': previousRedriveCount })
+                        }
+                    }
+                },
+                {
+                    // the order goes back to PROCESSING until the replayed item reaches a final status again
+                    Update: {
+                        TableName: process.env.ORDERS_TABLE_NAME as string,
+                        Key: orderKey,
+                        UpdateExpression: 'SET orderStatus = :processing, updatedAt = :now REMOVE completedAt ADD failedItems :minusOne',
+                        ConditionExpression: 'attribute_exists(orderId) AND orderStatus <> :cancelled',
+                        ExpressionAttributeValues: {
+                            ':processing': OrderStatus.PROCESSING,
+                            ':cancelled': OrderStatus.CANCELLED,
+                            ':now': now,
+                            ':minusOne': -1
+                        }
+                    }
+                },
+                {
+                    Put: {
+                        TableName: process.env.OUTBOX_TABLE_NAME as string,
+                        Item: outboxEntry
+                    }
+                }
+            ]
+        }));
+    } catch (error) {
+        if (error instanceof TransactionCanceledException) {
+            const [itemReason, orderReason] = error.CancellationReasons ?? [];
+            if (itemReason?.Code === 'ConditionalCheckFailed') {
+                return 'item changed while it was being replayed';
+            }
+            if (orderReason?.Code === 'ConditionalCheckFailed') {
+                return 'order was cancelled';
+            }
+        }
+        throw error;
+    }
+    return undefined;
+};
+
+// Replay selected FAILED items of an order, or all of them, back to the FIFO queue of their lane through the outbox
+export const replayItems = async (orderId: string, itemIds?: string[]): Promise<{ orderId: string; results: ReplayResult[] }> => {
+    const order = await findOrder(dynamoDB, orderId);
+    if (!order) {
+        throw new Error(`Order ${orderId} not found`);
+    }
+    const orderKey: OrderKey = { orderId, timestamp: order.timestamp };
+
+    const items = await listOrderItems(dynamoDB, orderId);
+    const selected = itemIds?.length ? itemIds : items.filter(item => item.itemStatus === ItemStatus.FAILED).map(item => item.itemId);
+
+    const results: ReplayResult[] = [];
+    for (const itemId of selected) {
+        const item = items.find(candidate => candidate.itemId === itemId);
+        if (!item) {
+            results.push({ itemId, outcome: 'REFUSED', reason: 'item not found' });
+            continue;
+        }
+
+        // CANCELLED and PROCESSED items must never be processed again, and PENDING items are still in flight
+        if (item.itemStatus !== ItemStatus.FAILED) {
+            results.push({ itemId, outcome: 'REFUSED', reason: `item is ${item.itemStatus}` });
+            continue;
+        }
+
+        const redriveCount = (item.redriveCount ?? 0) + 1;
+        const refusal = await resetItemForRedrive(orderKey, item, redriveCount, order.correlationId);
+        if (refusal) {
+            results.push({ itemId, outcome: 'REFUSED', reason: refusal });
+            continue;
+        }
+
+        logger.info(`Replayed item ${itemId} on order ${orderId}`, { redriveCount });
+        results.push({ itemId, outcome: 'REPLAYED', redriveCount });
+    }
+
+    return { orderId, results };
+};
+
+const purgeDlq = async (lane: Lane) => {
+    await sqs.send(new PurgeQueueCommand({ QueueUrl: dlqUrlFor(lane) }));
+    logger.info(`Purged the ${lane} DLQ`);
+    return { lane, purged: true };
+};
+
+// The RedriveManager is invoked directly (see the Makefile) to inspect, replay and purge failed items
+export const handler = async (event: RedriveRequest, _context: Context) => {
+    logger.info(`Handling redrive action ${event.action}`);
+
+    switch (event.action) {
+        case 'list-dlq':
+            return listDlqMessages(requestedLane(event.lane), event.maxMessages);
+        case 'list-failed':
+            return listFailedItems(event.limit, event.nextToken);
+        case 'replay':
+            if (!event.orderId) {
+                throw new Error('orderId is required to replay items');
+            }
+            return replayItems(event.orderId, event.itemIds);
+        case 'purge-dlq':
+            return purgeDlq(requestedLane(event.lane));
+        default:
+            throw new Error(`Unknown redrive action ${(event as { action?: string }).action}`);
+    }
+};
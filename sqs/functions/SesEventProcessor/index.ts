@@ -0,0 +1,91 @@
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import type { SNSEvent, SNSEventRecord, Context } from 'aws-lambda';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { SuppressionReason, suppressAddress, type SuppressionEvent } from '../shared/suppression';
+
+// The parts of an SES notification that are used. Configuration set event destinations send eventType,
+// identity notifications send notificationType, so both are accepted.
+interface SesNotification {
+    eventType?: string;
+    notificationType?: string;
+    mail?: { messageId?: string; source?: string };
+    bounce?: {
+        bounceType?: string;
+        bounceSubType?: string;
+        bouncedRecipients?: { emailAddress: string }[];
+    };
+    complaint?: {
+        complaintFeedbackType?: string;
+        complainedRecipients?: { emailAddress: string }[];
+    };
+}
+
+const dynamoDBClient = new DynamoDBClient({});
+const dynamoDB = DynamoDBDocumentClient.from(dynamoDBClient);
+const logger = new Logger({ serviceName: 'sesEventProcessor' });
+
+// Work out which recipients to suppress. Only permanent (hard) bounces and complaints suppress an address:
+// transient bounces such as a full mailbox may succeed later, and rejects aren't about the recipient.
+export const parseSuppressionEvents = (notification: SesNotification): SuppressionEvent[] => {
+    const type = notification.eventType ?? notification.notificationType;
+    const messageId = notification.mail?.messageId;
+
+    if (type === 'Bounce' && notification.bounce?.bounceType === 'Permanent') {
+        return (notification.bounce.bouncedRecipients ?? []).map(recipient => ({
+            email: recipient.emailAddress,
+            reason: SuppressionReason.BOUNCE,
+            detail: notification.bounce?.bounceSubType,
+            messageId
+        }));
+    }
+
+    if (type === 'Complaint') {
+        return (notification.complaint?.complainedRecipients ?? []).map(recipient => ({
+            email: recipient.emailAddress,
+            reason: SuppressionReason.COMPLAINT,
+            detail: notification.complaint?.complaintFeedbackType,
+            messageId
+        }));
+    }
+
+    return [];
+};
+
+const processRecord = async (record: SNSEventRecord): Promise<void> => {
+    let notification: SesNotification;
+    try {
+        notification = JSON.parse(record.Sns.Message);
+    } catch {
+        // retrying won't make the message parse, so it is dropped
+        logger.error(`Ignoring SNS message ${record.Sns.MessageId}, it is not an SES notification`);
+        return;
+    }
+
+    const events = parseSuppressionEvents(notification);
+    if (events.length === 0) {
+        logger.info(`Ignoring SES ${notification.eventType ?? notification.notificationType} event for message ${notification.mail?.messageId}`, {
+            bounceType: notification.bounce?.bounceType
+        });
+        return;
+    }
+
+    for (const event of events) {
+        await suppressAddress(dynamoDB, event);
+        logger.info(`Suppressed ${event.email} after a ${event.reason.toLowerCase()}`, { detail: event.detail, messageId: event.messageId });
+    }
+};
+
+// SNS invokes the function asynchronously, so a thrown error makes Lambda retry the whole event
+export const handler = async (event: SNSEvent, _context: Context): Promise<void> => {
+    logger.info(`Processing ${event.Records.length} SES event notifications`);
+
+    for (const record of event.Records) {
+        try {
+            await processRecord(record);
+        } catch (error) {
+            logger.error(`Failed to process SES event notification ${record.Sns.MessageId}:`, error instanceof Error ? error : String(error));
+            throw error;
+        }
+    }
+};
@@ -0,0 +1,63 @@
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { Logger } from '@aws-lambda-powertools/logger';
+
+// Items that were already processed when their order was cancelled can't simply be skipped,
+// so a compensation event is published for downstream systems to undo the work (restock, refund, etc.)
+export interface CompensationEvent {
+    eventType: 'ItemCompensationRequested';
+    reason: 'ORDER_CANCELLED';
+    orderId: string;
+    itemId: string;
+    itemDetail: string;
+    quantity: number;
+    price: number;
+    requestedAt: string;
+}
+
+export interface CompensatableItem {
+    orderId: string;
+    itemId: string;
+    itemDetail: string;
+    quantity: number;
+    price: number;
+}
+
+const logger = new Logger({ serviceName: 'compensation' });
+
+// Compensation is delivered at least once, consumers should use orderId and itemId to ignore duplicates
+export const requestCompensation = async (
+    sqs: SQSClient,
+    dynamoDB: DynamoDBDocumentClient,
+    item: CompensatableItem
+): Promise<void> => {
+    const requestedAt = new Date().toISOString();
+    const compensationEvent: CompensationEvent = {
+        eventType: 'ItemCompensationRequested',
+        reason: 'ORDER_CANCELLED',
+        orderId: item.orderId,
+        itemId: item.itemId,
+        itemDetail: item.itemDetail,
+        quantity: item.quantity,
+        price: item.price,
+        requestedAt
+    };
+
+    await sqs.send(new SendMessageCommand({
+        QueueUrl: process.env.COMPENSATION_QUEUE_URL as string,
+        MessageBody: JSON.stringify(compensationEvent)
+    }));
+
+    // record the request on the item so that it is visible alongside the item status
+    await dynamoDB.send(new UpdateCommand({
+        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+        Key: { orderId: item.orderId, itemId: item.itemId },
+        UpdateExpression: 'SET compensationStatus = :requested, compensationRequestedAt = :requestedAt',
+        ExpressionAttributeValues: {
+            ':requested': 'REQUESTED',
+            ':requestedAt': requestedAt
+        }
+    }));
+
+    logger.info(`Requested compensation for item ${item.itemId} on order ${item.orderId}`);
+};
@@ -0,0 +1,200 @@
+import { randomUUID } from 'crypto';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { Logger } from '@aws-lambda-powertools/logger';
+import type { Lane, OrderPriority } from './lanes';
+import { chunk } from './outbox';
+import { ACTIVE_ORDER_STATUSES, ItemStatus, type OrderStatus, type OrderStatusChange } from './orderStatus';
+
+// Domain events tell downstream services what happened to orders, so they can react without reading the tables.
+// They are published to the order events bus with the name of the event as their detail-type, and the JSON Schema
+// of every version is published in schemas/events. A change that would break consumers is made in a new version
+// of the event, which is published alongside the old one until the consumers have moved over.
+export const DOMAIN_EVENT_SOURCE = 'orders.pipeline';
+
+export const DomainEventType = {
+    ORDER_PLACED: 'OrderPlaced',
+    ITEM_PROCESSED: 'ItemProcessed',
+    ITEM_FAILED: 'ItemFailed',
+    ORDER_COMPLETED: 'OrderCompleted',
+    ORDER_CANCELLED: 'OrderCancelled',
+} as const;
+export type DomainEventType = typeof DomainEventType[keyof typeof DomainEventType];
+
+// the version of each event that is published, which is also the version of its schema
+export const DOMAIN_EVENT_VERSIONS: Record<DomainEventType, number> = {
+    OrderPlaced: 1,
+    ItemProcessed: 1,
+    ItemFailed: 1,
+    OrderCompleted: 1,
+    OrderCancelled: 1,
+};
+
+export interface DomainEventItem {
+    itemId: string;
+    sku?: string;
+    itemDetail: string;
+    quantity: number;
+    price: number;
+}
+
+export interface OrderPlacedData {
+    orderId: string;
+    userId: string;
+    // the order's sort key, carried on every item message as well
+    timestamp: string;
+    orderStatus: typeof OrderStatus.SCHEDULED | typeof OrderStatus.PENDING;
+    priority: OrderPriority;
+    lane: Lane;
+    scheduledFor?: string;
+    totalValue: number;
+    items: DomainEventItem[];
+}
+
+export interface ItemProcessedData extends DomainEventItem {
+    orderId: string;
+}
+
+export interface ItemFailedData extends DomainEventItem {
+    orderId: string;
+    // OUT_OF_STOCK items aren't retried, FAILED items failed on every attempt and can be redriven
+    itemStatus: typeof ItemStatus.FAILED | typeof ItemStatus.OUT_OF_STOCK;
+}
+
+export interface OrderCompletedData {
+    orderId: string;
+    userId: string;
+    orderStatus: typeof OrderStatus.COMPLETED | typeof OrderStatus.PARTIALLY_FAILED | typeof OrderStatus.FAILED;
+    totalItems: number;
+    processedItems: number;
+    failedItems: number;
+    totalValue: number;
+}
+
+export interface OrderCancelledData {
+    orderId: string;
+    userId: string;
+    // the status the order was cancelled from
+    previousStatus: typeof OrderStatus.SCHEDULED | typeof OrderStatus.PENDING | typeof OrderStatus.PROCESSING;
+    cancelledItems: string[];
+    // processed items that downstream systems were asked to undo, see shared/compensation.ts
+    compensatedItems: string[];
+}
+
+export interface DomainEventData {
+    OrderPlaced: OrderPlacedData;
+    ItemProcessed: ItemProcessedData;
+    ItemFailed: ItemFailedData;
+    OrderCompleted: OrderCompletedData;
+    OrderCancelled: OrderCancelledData;
+}
+
+export interface DomainEventMetadata {
+    // stays the same when an event is published again, so consumers can use it to ignore duplicates
+    eventId: string;
+    version: number;
+    occurredAt: string;
+    correlationId?: string;
+}
+
+export interface DomainEvent<T extends DomainEventType = DomainEventType> {
+    detailType: T;
+    detail: {
+        metadata: DomainEventMetadata;
+        data: DomainEventData[T];
+    };
+}
+
+// EventBridge accepts at most 10 entries in a PutEvents request
+const MAX_PUT_EVENTS_ENTRIES = 10;
+
+const logger = new Logger({ serviceName: 'domainEvents' });
+
+export const buildDomainEvent = <T extends DomainEventType>(detailType: T, data: DomainEventData[T], correlationId?: string): DomainEvent<T> => ({
+    detailType,
+    detail: {
+        metadata: {
+            eventId: randomUUID(),
+            version: DOMAIN_EVENT_VERSIONS[detailType],
+            occurredAt: new Date().toISOString(),
+            ...(correlationId ? { correlationId } : {})
+        },
+        data
+    }
+});
+
+// Only the fields of the item that are part of the schemas, the table attributes stay private
+export const toDomainEventItem = (item: Record<string, any>): DomainEventItem => ({
+    itemId: item.itemId,
+    ...(item.sku ? { sku: item.sku } : {}),
+    itemDetail: item.itemDetail,
+    quantity: item.quantity,
+    price: item.price
+});
+
+// The event of an item outcome that was recorded against its order
+export const buildItemOutcomeEvent = (
+    item: Record<string, any>,
+    outcome: typeof ItemStatus.PROCESSED | typeof ItemStatus.FAILED | typeof ItemStatus.OUT_OF_STOCK,
+    correlationId?: string
+): DomainEvent => outcome === ItemStatus.PROCESSED
+    ? buildDomainEvent(DomainEventType.ITEM_PROCESSED, { orderId: item.orderId, ...toDomainEventItem(item) }, correlationId)
+    : buildDomainEvent(DomainEventType.ITEM_FAILED, { orderId: item.orderId, ...toDomainEventItem(item), itemStatus: outcome }, correlationId);
+
+// The OrderCompleted event of a refresh that moved the order to a final status, orders that are still active have none
+export const buildOrderCompletedEvent = (change: OrderStatusChange | undefined): DomainEvent | undefined => {
+    if (!change || ACTIVE_ORDER_STATUSES.includes(change.orderStatus)) {
+        return undefined;
+    }
+    return buildDomainEvent(DomainEventType.ORDER_COMPLETED, {
+        orderId: change.order.orderId,
+        userId: change.order.userId,
+        orderStatus: change.orderStatus as OrderCompletedData['orderStatus'],
+        totalItems: change.order.totalItems,
+        processedItems: change.order.processedItems ?? 0,
+        failedItems: change.order.failedItems ?? 0,
+        totalValue: change.order.totalValue
+    }, change.order.correlationId);
+};
+
+// Publish the events to the order events bus, and throw if any of them wasn't accepted so the caller can retry.
+// Nothing is published when the bus isn't configured.
+export const publishDomainEvents = async (eventBridge: EventBridgeClient, events: DomainEvent[]): Promise<void> => {
+    const eventBusName = process.env.ORDER_EVENT_BUS_NAME;
+    if (!eventBusName || events.length === 0) {
+        return;
+    }
+
+    for (const batch of chunk(events, MAX_PUT_EVENTS_ENTRIES)) {
+        const result = await eventBridge.send(new PutEventsCommand({
+            Entries: batch.map(event => ({
+                EventBusName: eventBusName,
+                Source: DOMAIN_EVENT_SOURCE,
+                DetailType: event.detailType,
+                Detail: JSON.stringify(event.detail)
+            }))
+        }));
+
+        if (result.FailedEntryCount) {
+            const failures = (result.Entries ?? []).flatMap((entry, index) =>
+                entry.ErrorCode ? [`${batch[index].detailType} ${batch[index].detail.metadata.eventId} (${entry.ErrorCode}: ${entry.ErrorMessage})`] : []);
+            throw new Error(`Failed to publish events ${failures.join(', ')}`);
+        }
+    }
+
+    logger.info(`Published ${events.length} events`, { events: events.map(event => event.detailType) });
+};
+
+// Publish the events of a change that was already stored. The change is only reported once, so a retry wouldn't
+// publish them again. A failure is logged along with the events instead, so they can be published again by hand,
+// rather than failing the item or order they are about.
+export const emitDomainEvents = async (eventBridge: EventBridgeClient, events: (DomainEvent | undefined)[]): Promise<void> => {
+    const emitted = events.filter((event): event is DomainEvent => event !== undefined);
+    try {
+        await publishDomainEvents(eventBridge, emitted);
+    } catch (error) {
+        logger.error('Failed to publish events:', {
+            events: emitted,
+            error: error instanceof Error ? error : String(error)
+        });
+    }
+};
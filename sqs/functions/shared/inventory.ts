@@ -0,0 +1,214 @@
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { listOrderItems } from './orders';
+import { ItemStatus, OrderStatus, type OrderKey } from './orderStatus';
+
+// Stock is kept in the InventoryTable, keyed by SKU, as the number of units still available.
+// Processing an item reserves its quantity by decrementing that number, and the reservation is recorded
+// on the item in the same transaction so a retried message never reserves the same item twice.
+// SKUs that aren't in the table have no stock.
+
+export const ReservationStatus = {
+    RESERVED: 'RESERVED',
+    RELEASED: 'RELEASED',
+} as const;
+export type ReservationStatus = typeof ReservationStatus[keyof typeof ReservationStatus];
+
+// RESERVED: the stock was reserved for the item
+// ALREADY_RESERVED: a previous attempt reserved the stock, so nothing was written
+// OUT_OF_STOCK: there isn't enough stock for the item
+// ORDER_CANCELLED: the order was cancelled, so nothing was reserved
+// ITEM_NOT_PENDING: the item moved on (for example it was cancelled), so nothing was reserved
+export type ReservationResult = 'RESERVED' | 'ALREADY_RESERVED' | 'OUT_OF_STOCK' | 'ORDER_CANCELLED' | 'ITEM_NOT_PENDING';
+
+export interface ReservableItem {
+    orderId: string;
+    itemId: string;
+    // older messages don't carry a SKU, their item id is used instead
+    sku?: string;
+    quantity: number;
+}
+
+const logger = new Logger({ serviceName: 'inventory' });
+
+export const skuOf = (item: { itemId: string; sku?: string }): string => item.sku ?? item.itemId;
+
+// Reserve the stock for an item. The order check stops new reservations once an order is cancelled,
+// so the release that follows a cancellation can't miss a reservation made while it was running.
+export const reserveInventory = async (
+    dynamoDB: DynamoDBDocumentClient,
+    key: OrderKey,
+    item: ReservableItem
+): Promise<ReservationResult> => {
+    const sku = skuOf(item);
+
+    try {
+        await dynamoDB.send(new TransactWriteCommand({
+            TransactItems: [
+                {
+                    ConditionCheck: {
+                        TableName: process.env.ORDERS_TABLE_NAME as string,
+                        Key: key,
+                        ConditionExpression: 'attribute_exists(orderId) AND orderStatus <> :cancelled',
+                        ExpressionAttributeValues: {
+                            ':cancelled': OrderStatus.CANCELLED
+                        }
+                    }
+                },
+                {
+                    // an item whose reservation was released (it or its order failed) and that was then redriven reserves its stock again
+                    Update: {
+                        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+                        Key: { orderId: item.orderId, itemId: item.itemId },
+                        UpdateExpression: 'SET reservationStatus = :reserved, reservedSku = :sku, reservedAt = :now',
+                        ConditionExpression: 'itemStatus = :pending AND (attribute_not_exists(reservationStatus) OR reservationStatus = :released)',
+                        ExpressionAttributeValues: {
+                            ':reserved': ReservationStatus.RESERVED,
+                            ':released': ReservationStatus.RELEASED,
+                            ':pending': ItemStatus.PENDING,
+                            ':sku': sku,
+                            ':now': new Date().toISOString()
+                        },
+                        ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+                    }
+                },
+                {
+                    Update: {
+                        TableName: process.env.INVENTORY_TABLE_NAME as string,
+                        Key: { sku },
+                        UpdateExpression: 'ADD available :minusQuantity',
+                        ConditionExpression: 'available >= :quantity',
+                        ExpressionAttributeValues: {
+                            ':quantity': item.quantity,
+                            ':minusQuantity': -item.quantity
+                        }
+                    }
+                }
+            ]
+        }));
+    } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+            throw error;
+        }
+        // every failed condition is reported, so the order and item are checked before the stock
+        const [orderReason, itemReason, inventoryReason] = error.CancellationReasons ?? [];
+        if (orderReason?.Code === 'ConditionalCheckFailed') {
+            logger.info(`Order ${item.orderId} was cancelled, not reserving stock for item ${item.itemId}`);
+            return 'ORDER_CANCELLED';
+        }
+        if (itemReason?.Code === 'ConditionalCheckFailed') {
+            const existing = itemReason.Item;
+            if (existing?.itemStatus?.S === ItemStatus.PENDING && existing.reservationStatus?.S === ReservationStatus.RESERVED) {
+                logger.info(`Stock for item ${item.itemId} on order ${item.orderId} is already reserved`);
+                return 'ALREADY_RESERVED';
+            }
+            logger.info(`Item ${item.itemId} on order ${item.orderId} is no longer PENDING, not reserving stock for it`);
+            return 'ITEM_NOT_PENDING';
+        }
+        if (inventoryReason?.Code === 'ConditionalCheckFailed') {
+            logger.warn(`Not enough stock of ${sku} for item ${item.itemId} on order ${item.orderId}`, { quantity: item.quantity });
+            return 'OUT_OF_STOCK';
+        }
+        throw error;
+    }
+
+    logger.info(`Reserved ${item.quantity} of ${sku} for item ${item.itemId} on order ${item.orderId}`);
+    return 'RESERVED';
+};
+
+// Give the reserved stock of an item back, returns false if the item didn't hold a reservation.
+// When an item status is given, the stock is only given back while the item has that status.
+export const releaseItemReservation = async (
+    dynamoDB: DynamoDBDocumentClient,
+    item: ReservableItem,
+    itemStatus?: ItemStatus
+): Promise<boolean> => {
+    const sku = skuOf(item);
+
+    try {
+        await dynamoDB.send(new TransactWriteCommand({
+            TransactItems: [
+                {
+                    Update: {
+                        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+                        Key: { orderId: item.orderId, itemId: item.itemId },
+                        UpdateExpression: 'SET reservationStatus = :released, releasedAt = :now',
+                        ConditionExpression: itemStatus
+                            ? 'reservationStatus = :reserved AND itemStatus = :itemStatus'
+                            : 'reservationStatus = :reserved',
+                        ExpressionAttributeValues: {
+                            ':released': ReservationStatus.RELEASED,
+                            ':reserved': ReservationStatus.RESERVED,
+                            ':now': new Date().toISOString(),
+                            ...(itemStatus ? { ':itemStatus': itemStatus } : {})
+                        }
+                    }
+                },
+                {
+                    Update: {
+                        TableName: process.env.INVENTORY_TABLE_NAME as string,
+                        Key: { sku },
+                        UpdateExpression: 'ADD available :quantity',
+                        ExpressionAttributeValues: {
+                            ':quantity': item.quantity
+                        }
+                    }
+                }
+            ]
+        }));
+    } catch (error) {
+        if (error instanceof TransactionCanceledException && error.CancellationReasons?.[0]?.Code === 'ConditionalCheckFailed') {
+            return false;
+        }
+        throw error;
+    }
+
+    logger.info(`Released ${item.quantity} of ${sku} reserved for item ${item.itemId} on order ${item.orderId}`);
+    return true;
+};
+
+// Give back the stock of a single item, read from the item so that the SKU that was actually reserved is released.
+// Returns false if the item doesn't hold a reservation, or doesn't have the given status.
+export const releaseStoredItemReservation = async (
+    dynamoDB: DynamoDBDocumentClient,
+    orderId: string,
+    itemId: string,
+    itemStatus?: ItemStatus
+): Promise<boolean> => {
+    const result = await dynamoDB.send(new GetCommand({
+        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+        Key: { orderId, itemId },
+        ConsistentRead: true
+    }));
+    const item = result.Item;
+    if (item?.reservationStatus !== ReservationStatus.RESERVED) {
+        return false;
+    }
+    return releaseItemReservation(dynamoDB, { orderId, itemId, sku: item.reservedSku ?? item.sku, quantity: item.quantity }, itemStatus);
+};
+
+// Release every reservation still held by an order, used once the order is FAILED or CANCELLED.
+// Returns the ids of the items whose stock was given back.
+export const releaseOrderReservations = async (dynamoDB: DynamoDBDocumentClient, orderId: string): Promise<string[]> => {
+    const items = await listOrderItems(dynamoDB, orderId);
+    const releasedItems: string[] = [];
+
+    for (const item of items) {
+        if (item.reservationStatus !== ReservationStatus.RESERVED) {
+            continue;
+        }
+        // release the SKU that was actually reserved
+        const released = await releaseItemReservation(dynamoDB, {
+            orderId,
+            itemId: item.itemId,
+            sku: item.reservedSku ?? item.sku,
+            quantity: item.quantity
+        });
+        if (released) {
+            releasedItems.push(item.itemId);
+        }
+    }
+
+    return releasedItems;
+};
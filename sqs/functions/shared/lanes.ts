@@ -0,0 +1,56 @@
+// Items are processed in one of two lanes, each a FIFO queue with its own DLQ and OrderProcessor.
+// The express lane has a shorter visibility timeout and processors of its own, so urgent orders don't
+// wait behind the standard ones. The OrderManager picks the lane from the order's priority, and the lane
+// is stored on the order and its items so a redrive goes back to the same lane.
+
+export const Lane = {
+    EXPRESS: 'express',
+    STANDARD: 'standard',
+} as const;
+export type Lane = typeof Lane[keyof typeof Lane];
+
+export const OrderPriority = {
+    HIGH: 'high',
+    NORMAL: 'normal',
+    LOW: 'low',
+} as const;
+export type OrderPriority = typeof OrderPriority[keyof typeof OrderPriority];
+
+export type PriorityLanes = Record<OrderPriority, Lane>;
+
+export const DEFAULT_PRIORITY_LANES: PriorityLanes = {
+    high: Lane.EXPRESS,
+    normal: Lane.STANDARD,
+    low: Lane.STANDARD,
+};
+
+export const isLane = (value: unknown): value is Lane =>
+    Object.values(Lane).includes(value as Lane);
+
+export const isOrderPriority = (value: unknown): value is OrderPriority =>
+    Object.values(OrderPriority).includes(value as OrderPriority);
+
+// The routing rules are set by SqsStack in PRIORITY_LANES, as a JSON object of priority to lane.
+// Priorities it leaves out keep their default lane.
+export const loadPriorityLanes = (value = process.env.PRIORITY_LANES): PriorityLanes => {
+    if (!value) {
+        return DEFAULT_PRIORITY_LANES;
+    }
+    const overrides: Record<string, unknown> = JSON.parse(value);
+    for (const [priority, lane] of Object.entries(overrides)) {
+        if (!isOrderPriority(priority) || !isLane(lane)) {
+            throw new Error(`Invalid priority lane ${priority}: ${String(lane)}`);
+        }
+    }
+    return { ...DEFAULT_PRIORITY_LANES, ...overrides as Partial<PriorityLanes> };
+};
+
+// Items stored before lanes were introduced have no lane and belong to the standard one
+export const laneOf = (record: { lane?: string }): Lane =>
+    isLane(record.lane) ? record.lane : Lane.STANDARD;
+
+export const queueUrlFor = (lane: Lane): string =>
+    (lane === Lane.EXPRESS ? process.env.EXPRESS_QUEUE_URL : process.env.STANDARD_QUEUE_URL) as string;
+
+export const dlqUrlFor = (lane: Lane): string =>
+    (lane === Lane.EXPRESS ? process.env.EXPRESS_DLQ_URL : process.env.STANDARD_DLQ_URL) as string;
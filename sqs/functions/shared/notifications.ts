@@ -0,0 +1,113 @@
+import { SESClient, SendTemplatedEmailCommand } from '@aws-sdk/client-ses';
+import type { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { ACTIVE_ORDER_STATUSES, type OrderStatusChange } from './orderStatus';
+import { isSuppressed } from './suppression';
+
+// Emails are sent with the SES templates defined in the stack, through its configuration set so that
+// bounces and complaints are published to the SES events topic.
+// Notifications are best effort: a failed send is logged rather than failing the order or item it is about.
+// Addresses on the suppression list are skipped, see functions/SesEventProcessor.
+
+export interface OrderReceivedNotification {
+    orderId: string;
+    customerEmail: string;
+    items: { itemId: string; itemDetail: string; quantity: number; price: number }[];
+    totalValue: number;
+}
+
+export interface ItemFailedNotification {
+    orderId: string;
+    userId: string;
+    itemId: string;
+    itemDetail: string;
+    quantity: number;
+    price: number;
+}
+
+const logger = new Logger({ serviceName: 'notifications' });
+
+const formatAmount = (amount: number): string => amount.toFixed(2);
+
+// Returns whether the email was sent, nothing is sent when notifications aren't configured
+const sendTemplatedEmail = async (
+    ses: SESClient,
+    dynamoDB: DynamoDBDocumentClient,
+    to: string,
+    template: string | undefined,
+    templateData: Record<string, unknown>
+): Promise<boolean> => {
+    const source = process.env.NOTIFICATION_SENDER;
+    if (!source || !template) {
+        return false;
+    }
+
+    try {
+        if (await isSuppressed(dynamoDB, to)) {
+            logger.info(`Not sending ${template} email to ${to}, the address is suppressed`);
+            return false;
+        }
+
+        await ses.send(new SendTemplatedEmailCommand({
+            Source: source,
+            Destination: { ToAddresses: [to] },
+            Template: template,
+            TemplateData: JSON.stringify(templateData),
+            ConfigurationSetName: process.env.NOTIFICATION_CONFIGURATION_SET
+        }));
+        logger.info(`Sent ${template} email to ${to}`);
+        return true;
+    } catch (error) {
+        logger.error(`Failed to send ${template} email to ${to}:`, error instanceof Error ? error : String(error));
+        return false;
+    }
+};
+
+export const notifyOrderReceived = async (
+    ses: SESClient,
+    dynamoDB: DynamoDBDocumentClient,
+    notification: OrderReceivedNotification
+): Promise<boolean> =>
+    sendTemplatedEmail(ses, dynamoDB, notification.customerEmail, process.env.ORDER_RECEIVED_TEMPLATE, {
+        orderId: notification.orderId,
+        itemCount: notification.items.length,
+        items: notification.items.map(item => ({ ...item, price: formatAmount(item.price) })),
+        totalValue: formatAmount(notification.totalValue)
+    });
+
+// Let the customer know once their order has reached a final status, the change is only returned
+// by the refresh that moved the order, so the email is sent once
+export const notifyOrderFinished = async (
+    ses: SESClient,
+    dynamoDB: DynamoDBDocumentClient,
+    change: OrderStatusChange | undefined
+): Promise<boolean> => {
+    if (!change || ACTIVE_ORDER_STATUSES.includes(change.orderStatus) || !change.order.customerEmail) {
+        return false;
+    }
+
+    return sendTemplatedEmail(ses, dynamoDB, change.order.customerEmail, process.env.ORDER_COMPLETED_TEMPLATE, {
+        orderId: change.order.orderId,
+        orderStatus: change.orderStatus,
+        totalItems: change.order.totalItems,
+        processedItems: change.order.processedItems ?? 0,
+        failedItems: change.order.failedItems ?? 0
+    });
+};
+
+// Failed items are reported to the operations team for manual review
+export const notifyItemFailed = async (ses: SESClient, dynamoDB: DynamoDBDocumentClient, item: ItemFailedNotification): Promise<boolean> => {
+    const opsEmail = process.env.OPS_EMAIL;
+    if (!opsEmail) {
+        return false;
+    }
+
+    return sendTemplatedEmail(ses, dynamoDB, opsEmail, process.env.ITEM_FAILED_TEMPLATE, {
+        orderId: item.orderId,
+        userId: item.userId,
+        itemId: item.itemId,
+        itemDetail: item.itemDetail,
+        quantity: item.quantity,
+        price: formatAmount(item.price)
+    });
+};
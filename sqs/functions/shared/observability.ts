@@ -0,0 +1,99 @@
+import type { Context, SQSRecord } from 'aws-lambda';
+import type { MessageAttributeValue } from '@aws-sdk/client-sqs';
+import type { Metrics } from '@aws-lambda-powertools/metrics';
+import type { Tracer } from '@aws-lambda-powertools/tracer';
+
+// Every order gets a correlation id when the OrderManager accepts it. The id is stored on the order and on its
+// outbox messages, and travels with the item messages as an SQS message attribute, which SQS keeps when it moves
+// a message to the DLQ. The logs and traces of the OrderProcessor and DLQProcessor carry it, so every step of an
+// order can be tied back to the request that submitted it.
+export const CORRELATION_ID_ATTRIBUTE = 'CorrelationId';
+
+export const correlationIdOf = (record: SQSRecord): string | undefined =>
+    record.messageAttributes?.[CORRELATION_ID_ATTRIBUTE]?.stringValue;
+
+export const correlationAttributes = (correlationId?: string): Record<string, MessageAttributeValue> | undefined =>
+    correlationId ? { [CORRELATION_ID_ATTRIBUTE]: { DataType: 'String', StringValue: correlationId } } : undefined;
+
+// The metrics are published as EMF logs under the POWERTOOLS_METRICS_NAMESPACE, with a service dimension.
+// The alarms and dashboard in lib/sqs-stack.ts use the same names.
+export const MetricService = {
+    ORDER_MANAGER: 'orderManager',
+    ORDER_PROCESSOR: 'orderProcessor',
+    DLQ_PROCESSOR: 'dlqProcessor',
+} as const;
+
+export const MetricName = {
+    ORDERS_ACCEPTED: 'OrdersAccepted',
+    ITEMS_PROCESSED: 'ItemsProcessed',
+    ITEMS_OUT_OF_STOCK: 'ItemsOutOfStock',
+    ITEMS_FAILED: 'ItemsFailed',
+    // from when the order was accepted until the item was PROCESSED, so it includes the time spent retrying
+    ITEM_PROCESSING_LATENCY: 'ItemProcessingLatency',
+    // receives of an item message after the first one
+    ITEM_RETRIES: 'ItemRetries',
+    DLQ_ARRIVALS: 'DlqArrivals',
+} as const;
+
+// Run a handler in its own subsegment with the cold start and service annotations, and publish the metrics
+// it added once it returns. Invocations that had nothing to count, such as rejected orders, publish nothing.
+// This does what Powertools' captureLambdaHandler and logMetrics do, which are only offered as middy middleware
+// or as decorators of a class handler. The handlers here are plain functions, some of them wrapped by makeIdempotent,
+// and middy isn't a dependency. Unlike captureLambdaHandler, the response isn't added to the trace, as it can hold
+// customer details, and unlike logMetrics an invocation without metrics doesn't log a warning.
+export const instrumentHandler = <TEvent, TResult>(
+    tracer: Tracer,
+    metrics: Metrics,
+    handler: (event: TEvent, context: Context) => Promise<TResult>
+) => async (event: TEvent, context: Context): Promise<TResult> => {
+    const segment = tracer.getSegment();
+    const subsegment = segment?.addNewSubsegment(`## ${process.env._HANDLER ?? context.functionName}`);
+    if (subsegment) {
+        tracer.setSegment(subsegment);
+    }
+    tracer.annotateColdStart();
+    tracer.addServiceNameAnnotation();
+
+    try {
+        return await handler(event, context);
+    } catch (error) {
+        tracer.addErrorAsMetadata(error as Error);
+        throw error;
+    } finally {
+        subsegment?.close();
+        if (segment) {
+            tracer.setSegment(segment);
+        }
+        if (metrics.hasStoredMetrics()) {
+            metrics.publishStoredMetrics();
+        }
+    }
+};
+
+// Trace the work on a single record in a subsegment of its own, annotated with the ids that identify it.
+// Records are processed concurrently, so each one gets its own subsegment rather than annotating the handler's.
+export const traceRecord = async <T>(
+    tracer: Tracer,
+    name: string,
+    annotations: Record<string, string | undefined>,
+    work: () => Promise<T>
+): Promise<T> => {
+    if (!tracer.isTracingEnabled()) {
+        return work();
+    }
+    return tracer.provider.captureAsyncFunc(`### ${name}`, async subsegment => {
+        for (const [key, value] of Object.entries(annotations)) {
+            if (value !== undefined) {
+                subsegment?.addAnnotation(key, value);
+            }
+        }
+        try {
+            return await work();
+        } catch (error) {
+            subsegment?.addError(error as Error);
+            throw error;
+        } finally {
+            subsegment?.close();
+        }
+    }) as Promise<T>;
+};
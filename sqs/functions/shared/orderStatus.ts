@@ -0,0 +1,258 @@
+import { ConditionalCheckFailedException, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+
+// Order lifecycle: PENDING -> PROCESSING -> COMPLETED / PARTIALLY_FAILED / FAILED
+// orders for a later time start as SCHEDULED and move to PENDING when they are released, see shared/scheduling.ts
+// an order that is still SCHEDULED, PENDING or PROCESSING can also be CANCELLED
+export const OrderStatus = {
+    SCHEDULED: 'SCHEDULED',
+    PENDING: 'PENDING',
+    PROCESSING: 'PROCESSING',
+    COMPLETED: 'COMPLETED',
+    PARTIALLY_FAILED: 'PARTIALLY_FAILED',
+    FAILED: 'FAILED',
+    CANCELLED: 'CANCELLED',
+} as const;
+export type OrderStatus = typeof OrderStatus[keyof typeof OrderStatus];
+
+export const ItemStatus = {
+    PENDING: 'PENDING',
+    PROCESSED: 'PROCESSED',
+    FAILED: 'FAILED',
+    // there wasn't enough stock to reserve, the item is not retried and counts as failed
+    OUT_OF_STOCK: 'OUT_OF_STOCK',
+    CANCELLED: 'CANCELLED',
+} as const;
+export type ItemStatus = typeof ItemStatus[keyof typeof ItemStatus];
+
+// Items in a terminal status are never processed again
+export const TERMINAL_ITEM_STATUSES: readonly string[] = [ItemStatus.PROCESSED, ItemStatus.FAILED, ItemStatus.OUT_OF_STOCK, ItemStatus.CANCELLED];
+
+// Orders in an active status haven't finished yet, so their payment isn't settled and they can still be cancelled.
+// Item outcomes only move PENDING and PROCESSING orders along, as the items of a SCHEDULED order aren't queued yet.
+export const ACTIVE_ORDER_STATUSES: readonly string[] = [OrderStatus.SCHEDULED, OrderStatus.PENDING, OrderStatus.PROCESSING];
+
+export interface OrderKey {
+    orderId: string;
+    // the order's sort key, which is also carried on every item message
+    timestamp: string;
+}
+
+// RECORDED: the item outcome was stored and counted against the order
+// ALREADY_FINAL: the item had already reached a terminal status, so nothing was written
+// ORDER_CANCELLED: the order was cancelled, so the outcome was not recorded
+export type ItemOutcomeResult = 'RECORDED' | 'ALREADY_FINAL' | 'ORDER_CANCELLED';
+
+export interface OrderStatusChange {
+    previousStatus: OrderStatus;
+    orderStatus: OrderStatus;
+    order: Record<string, any>;
+}
+
+const logger = new Logger({ serviceName: 'orderStatus' });
+
+const isConditionalCheckFailure = (error: unknown): boolean =>
+    error instanceof ConditionalCheckFailedException;
+
+// Work out where an order should be based on its item counters
+export const deriveOrderStatus = (totalItems: number, processedItems: number, failedItems: number): OrderStatus => {
+    if (processedItems + failedItems < totalItems) {
+        return processedItems + failedItems > 0 ? OrderStatus.PROCESSING : OrderStatus.PENDING;
+    }
+
+    if (failedItems === 0) {
+        return OrderStatus.COMPLETED;
+    }
+
+    return processedItems === 0 ? OrderStatus.FAILED : OrderStatus.PARTIALLY_FAILED;
+};
+
+// Move the order from PENDING to PROCESSING when the first item starts processing.
+// Returns the status the order is in afterwards, so callers can tell if it was cancelled.
+export const markOrderProcessing = async (dynamoDB: DynamoDBDocumentClient, key: OrderKey): Promise<string | undefined> => {
+    try {
+        await dynamoDB.send(new UpdateCommand({
+            TableName: process.env.ORDERS_TABLE_NAME as string,
+            Key: key,
+            UpdateExpression: 'SET orderStatus = :processing, updatedAt = :updatedAt',
+            ConditionExpression: 'orderStatus = :pending',
+            ExpressionAttributeValues: {
+                ':processing': OrderStatus.PROCESSING,
+                ':pending': OrderStatus.PENDING,
+                ':updatedAt': new Date().toISOString()
+            },
+            ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+        }));
+        logger.info(`Order ${key.orderId} moved to status: ${OrderStatus.PROCESSING}`);
+        return OrderStatus.PROCESSING;
+    } catch (error) {
+        // the order has already moved past PENDING, so report where it is now
+        if (error instanceof ConditionalCheckFailedException) {
+            return error.Item?.orderStatus?.S;
+        }
+        throw error;
+    }
+};
+
+// Mark an item that is still PENDING as CANCELLED, returns false if the item had already moved on
+export const cancelPendingItem = async (dynamoDB: DynamoDBDocumentClient, orderId: string, itemId: string): Promise<boolean> => {
+    try {
+        await dynamoDB.send(new UpdateCommand({
+            TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+            Key: { orderId, itemId },
+            UpdateExpression: 'SET itemStatus = :cancelled, cancelledAt = :cancelledAt',
+            ConditionExpression: 'itemStatus = :pending',
+            ExpressionAttributeValues: {
+                ':cancelled': ItemStatus.CANCELLED,
+                ':pending': ItemStatus.PENDING,
+                ':cancelledAt': new Date().toISOString()
+            }
+        }));
+        return true;
+    } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+            logger.info(`Item ${itemId} on order ${orderId} is no longer PENDING, leaving it as is`);
+            return false;
+        }
+        throw error;
+    }
+};
+
+// Move an item into a terminal status and count it against the order in a single transaction,
+// so concurrent item updates can't lose counter increments or count the same item twice.
+// Nothing is written if the item is already in a terminal status (including CANCELLED) or the order was cancelled.
+export const recordItemOutcome = async (
+    dynamoDB: DynamoDBDocumentClient,
+    key: OrderKey,
+    itemId: string,
+    outcome: typeof ItemStatus.PROCESSED | typeof ItemStatus.FAILED | typeof ItemStatus.OUT_OF_STOCK
+): Promise<ItemOutcomeResult> => {
+    const now = new Date().toISOString();
+    const counter = outcome === ItemStatus.PROCESSED ? 'processedItems' : 'failedItems';
+    const outcomeTimestamp = {
+        [ItemStatus.PROCESSED]: 'processedAt',
+        [ItemStatus.FAILED]: 'failedAt',
+        [ItemStatus.OUT_OF_STOCK]: 'outOfStockAt'
+    }[outcome];
+
+    try {
+        await dynamoDB.send(new TransactWriteCommand({
+            TransactItems: [
+                {
+                    Update: {
+                        TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+                        Key: { orderId: key.orderId, itemId },
+                        UpdateExpression: `SET itemStatus = :status, ${outcomeTimestamp} = :now`,
+                        ConditionExpression: 'attribute_exists(itemId) AND NOT (itemStatus IN (:processed, :failed, :outOfStock, :cancelled))',
+                        ExpressionAttributeValues: {
+                            ':status': outcome,
+                            ':now': now,
+                            ':processed': ItemStatus.PROCESSED,
+                            ':failed': ItemStatus.FAILED,
+                            ':outOfStock': ItemStatus.OUT_OF_STOCK,
+                            ':cancelled': ItemStatus.CANCELLED
+                        }
+                    }
+                },
+                {
+                    Update: {
+                        TableName: process.env.ORDERS_TABLE_NAME as string,
+                        Key: key,
+                        UpdateExpression: `ADD ${counter} :one SET updatedAt = :now`,
+                        ConditionExpression: 'attribute_exists(orderId) AND orderStatus <> :cancelled',
+                        ExpressionAttributeValues: {
+                            ':one': 1,
+                            ':now': now,
+                            ':cancelled': OrderStatus.CANCELLED
+                        },
+                        ReturnValuesOnConditionCheckFailure: 'ALL_OLD'
+                    }
+                }
+            ]
+        }));
+    } catch (error) {
+        if (!(error instanceof TransactionCanceledException)) {
+            throw error;
+        }
+        const [itemReason, orderReason] = error.CancellationReasons ?? [];
+        if (itemReason?.Code === 'ConditionalCheckFailed') {
+            logger.info(`Item ${itemId} on order ${key.orderId} is already in a terminal status, not counting it again`);
+            return 'ALREADY_FINAL';
+        }
+        if (orderReason?.Code === 'ConditionalCheckFailed' && orderReason.Item?.orderStatus?.S === OrderStatus.CANCELLED) {
+            logger.info(`Order ${key.orderId} was cancelled, not recording ${outcome} for item ${itemId}`);
+            return 'ORDER_CANCELLED';
+        }
+        throw error;
+    }
+
+    return 'RECORDED';
+};
+
+// Re-derive the order status from its counters and store it if it changed.
+// This is safe to call repeatedly, so callers also use it to heal an order after a retried message.
+export const refreshOrderStatus = async (dynamoDB: DynamoDBDocumentClient, key: OrderKey): Promise<OrderStatusChange | undefined> => {
+    const result = await dynamoDB.send(new GetCommand({
+        TableName: process.env.ORDERS_TABLE_NAME as string,
+        Key: key,
+        ConsistentRead: true
+    }));
+
+    const order = result.Item;
+    if (!order) {
+        logger.warn(`Order ${key.orderId} not found, unable to refresh its status`);
+        return undefined;
+    }
+
+    const previousStatus = order.orderStatus as OrderStatus;
+    if (!ACTIVE_ORDER_STATUSES.includes(previousStatus)) {
+        return undefined;
+    }
+
+    const processedItems = order.processedItems ?? 0;
+    const failedItems = order.failedItems ?? 0;
+    const orderStatus = deriveOrderStatus(order.totalItems, processedItems, failedItems);
+
+    // never move an order back to PENDING once it has started processing
+    if (orderStatus === previousStatus || orderStatus === OrderStatus.PENDING) {
+        return undefined;
+    }
+
+    const now = new Date().toISOString();
+    const isTerminal = !ACTIVE_ORDER_STATUSES.includes(orderStatus);
+
+    try {
+        // the condition guards against a concurrent refresh that saw newer counters
+        const updated = await dynamoDB.send(new UpdateCommand({
+            TableName: process.env.ORDERS_TABLE_NAME as string,
+            Key: key,
+            UpdateExpression: isTerminal
+                ? 'SET orderStatus = :status, updatedAt = :now, completedAt = :now'
+                : 'SET orderStatus = :status, updatedAt = :now',
+            ConditionExpression: 'orderStatus = :previousStatus AND processedItems = :processedItems AND failedItems = :failedItems',
+            ExpressionAttributeValues: {
+                ':status': orderStatus,
+                ':now': now,
+                ':previousStatus': previousStatus,
+                ':processedItems': processedItems,
+                ':failedItems': failedItems
+            },
+            ReturnValues: 'ALL_NEW'
+        }));
+
+        logger.info(`Order ${key.orderId} moved from ${previousStatus} to ${orderStatus}`, {
+            processedItems,
+            failedItems,
+            totalItems: order.totalItems
+        });
+
+        return { previousStatus, orderStatus, order: updated.Attributes ?? order };
+    } catch (error) {
+        if (isConditionalCheckFailure(error)) {
+            logger.info(`Order ${key.orderId} changed while refreshing its status, leaving it to the newer update`);
+            return undefined;
+        }
+        throw error;
+    }
+};
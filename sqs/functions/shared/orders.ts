@@ -0,0 +1,57 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import type { Lane } from './lanes';
+import type { ItemStatus } from './orderStatus';
+
+// An item as the OrderManager stores it in the OrderItemsTable. Processing the item adds its reservation,
+// outcome and compensation attributes to the same row.
+export interface OrderItemRecord {
+    orderId: string;
+    itemId: string;
+    // older items don't have a SKU, their item id is used instead
+    sku?: string;
+    itemDetail: string;
+    quantity: number;
+    price: number;
+    itemStatus: ItemStatus;
+    // kept on the item so a redrive sends it back to the same lane, older items go to the standard lane
+    lane?: Lane;
+    // the timestamp of the order, which is part of its key
+    timestamp: string;
+}
+
+// Look up an order by id. The OrdersTable is keyed on orderId and timestamp, so we query for the single record.
+export const findOrder = async (dynamoDB: DynamoDBDocumentClient, orderId: string): Promise<Record<string, any> | undefined> => {
+    const result = await dynamoDB.send(new QueryCommand({
+        TableName: process.env.ORDERS_TABLE_NAME as string,
+        KeyConditionExpression: 'orderId = :orderId',
+        ExpressionAttributeValues: {
+            ':orderId': orderId
+        },
+        Limit: 1,
+        ConsistentRead: true
+    }));
+
+    return result.Items?.[0];
+};
+
+// Load every item on an order, following the pagination of the query
+export const listOrderItems = async (dynamoDB: DynamoDBDocumentClient, orderId: string): Promise<Record<string, any>[]> => {
+    const items: Record<string, any>[] = [];
+    let exclusiveStartKey: Record<string, any> | undefined;
+
+    do {
+        const result = await dynamoDB.send(new QueryCommand({
+            TableName: process.env.ORDER_ITEMS_TABLE_NAME as string,
+            KeyConditionExpression: 'orderId = :orderId',
+            ExpressionAttributeValues: {
+                ':orderId': orderId
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+            ConsistentRead: true
+        }));
+        items.push(...(result.Items ?? []));
+        exclusiveStartKey = result.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return items;
+};
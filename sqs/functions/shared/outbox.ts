@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import type { DomainEvent } from './domainEvents';
+import type { Lane } from './lanes';
+import type { OrderItemRecord } from './orders';
+import type { ScheduledRelease } from './scheduling';
+
+// Transactional outbox: messages are written to the OutboxTable in the same DynamoDB transaction as the
+// rows they describe, and the OutboxRelay publishes them to SQS from the table's stream.
+// This way a crash can never leave rows without queued messages, or queued messages without rows.
+
+export const OutboxStatus = {
+    PENDING: 'PENDING',
+    SENT: 'SENT',
+} as const;
+export type OutboxStatus = typeof OutboxStatus[keyof typeof OutboxStatus];
+
+export interface OutboxMessage {
+    itemId: string;
+    messageBody: string;
+    messageGroupId: string;
+    deduplicationId: string;
+    // sent as a message attribute, see shared/observability.ts
+    correlationId?: string;
+    // the queue the message is sent to, entries written before lanes were introduced go to the standard lane
+    lane?: Lane;
+}
+
+export interface OutboxEntry {
+    outboxId: string;
+    orderId: string;
+    outboxStatus: OutboxStatus;
+    messages: OutboxMessage[];
+    // set on the entry of an order that is due within the SQS delay limit, which is sent as a delayed release message
+    release?: ScheduledRelease;
+    // domain events about the rows the entry was written with, published to the order events bus before the messages
+    events?: DomainEvent[];
+    // the SQS message id of every item, or of the release message, recorded once the entry has been sent
+    sentMessages?: Record<string, string>;
+    createdAt: string;
+    // sent entries are cleaned up by the table's TTL
+    expiresAt: number;
+}
+
+// SQS deduplication ids are limited to 128 characters
+const MAX_DEDUPLICATION_ID_LENGTH = 128;
+
+// Joins the parts of a deduplication id. The ids may contain ':' but not '#' (see OrderManager/validation.ts),
+// so order "A:B" with item "C" and order "A" with item "B:C" get different deduplication ids
+const DEDUPLICATION_ID_SEPARATOR = '#';
+
+// The deduplication id is derived from the order and item, plus the redrive generation (0 for the original message),
+// so a retried invocation sends the same id and the FIFO queue drops the duplicate, while each redrive gets a new one
+export const buildDeduplicationId = (orderId: string, itemId: string, generation: number): string => {
+    const deduplicationId = [orderId, itemId, generation].join(DEDUPLICATION_ID_SEPARATOR);
+    if (deduplicationId.length <= MAX_DEDUPLICATION_ID_LENGTH) {
+        return deduplicationId;
+    }
+    return createHash('sha256').update(deduplicationId).digest('hex');
+};
+
+// The messages of the items of a new or released order, which are all sent to the queue of the order's lane
+export const buildItemMessages = (items: OrderItemRecord[], lane: Lane, correlationId?: string): OutboxMessage[] =>
+    items.map(item => ({
+        itemId: item.itemId,
+        messageBody: JSON.stringify(item),
+        messageGroupId: item.orderId,
+        deduplicationId: buildDeduplicationId(item.orderId, item.itemId, 0),
+        correlationId,
+        lane
+    }));
+
+// DynamoDB accepts at most 100 actions in a single transaction
+export const MAX_TRANSACTION_ACTIONS = 100;
+
+const OUTBOX_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export const buildOutboxEntry = (
+    outboxId: string,
+    orderId: string,
+    messages: OutboxMessage[],
+    release?: ScheduledRelease,
+    events?: DomainEvent[]
+): OutboxEntry => {
+    const now = new Date();
+    return {
+        outboxId,
+        orderId,
+        outboxStatus: OutboxStatus.PENDING,
+        messages,
+        ...(release ? { release } : {}),
+        ...(events?.length ? { events } : {}),
+        createdAt: now.toISOString(),
+        expiresAt: Math.floor(now.getTime() / 1000) + OUTBOX_RETENTION_SECONDS
+    };
+};
+
+// Split transaction actions into chunks that DynamoDB accepts
+export const chunk = <T>(values: T[], size: number): T[][] => {
+    const chunks: T[][] = [];
+    for (let index = 0; index < values.length; index += size) {
+        chunks.push(values.slice(index, index + size));
+    }
+    return chunks;
+};
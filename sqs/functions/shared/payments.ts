@@ -0,0 +1,83 @@
+import { createHash } from 'crypto';
+
+// Payments go through a PaymentProvider, picked with the PAYMENT_PROVIDER environment variable.
+// Amounts are in cents. Every call takes an idempotency key, and calling again with the same key
+// must return the original transaction rather than moving money twice.
+
+export interface AuthorizationRequest {
+    orderId: string;
+    userId: string;
+    amount: number;
+    idempotencyKey: string;
+}
+
+export type AuthorizationResult =
+    | { status: 'AUTHORIZED'; transactionId: string; amount: number }
+    | { status: 'DECLINED'; reason: string };
+
+export interface PaymentTransactionResult {
+    transactionId: string;
+    amount: number;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+    authorize(request: AuthorizationRequest): Promise<AuthorizationResult>;
+    // take some or all of an authorization, an authorization can be captured more than once
+    capture(authorizationId: string, amount: number, idempotencyKey: string): Promise<PaymentTransactionResult>;
+    // release some or all of an authorization that won't be captured
+    void(authorizationId: string, amount: number, idempotencyKey: string): Promise<PaymentTransactionResult>;
+    // give back some or all of a capture
+    refund(captureId: string, amount: number, idempotencyKey: string): Promise<PaymentTransactionResult>;
+}
+
+export class PaymentError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PaymentError';
+    }
+}
+
+export const toCents = (amount: number): number => Math.round(amount * 100);
+
+export const fromCents = (cents: number): number => cents / 100;
+
+// Runs offline, so the demo works without a payment account. Transaction ids are derived from the idempotency key,
+// which makes repeated calls return the same transaction. Authorizations above the limit are declined.
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake';
+
+    constructor(private readonly declineAbove: number) {}
+
+    async authorize(request: AuthorizationRequest): Promise<AuthorizationResult> {
+        if (request.amount > this.declineAbove) {
+            return { status: 'DECLINED', reason: `amount exceeds the limit of ${fromCents(this.declineAbove).toFixed(2)}` };
+        }
+        return { status: 'AUTHORIZED', transactionId: this.transactionId('auth', request.idempotencyKey), amount: request.amount };
+    }
+
+    async capture(_authorizationId: string, amount: number, idempotencyKey: string): Promise<PaymentTransactionResult> {
+        return { transactionId: this.transactionId('cap', idempotencyKey), amount };
+    }
+
+    async void(_authorizationId: string, amount: number, idempotencyKey: string): Promise<PaymentTransactionResult> {
+        return { transactionId: this.transactionId('void', idempotencyKey), amount };
+    }
+
+    async refund(_captureId: string, amount: number, idempotencyKey: string): Promise<PaymentTransactionResult> {
+        return { transactionId: this.transactionId('ref', idempotencyKey), amount };
+    }
+
+    private transactionId(prefix: string, idempotencyKey: string): string {
+        return `fake_${prefix}_${createHash('sha256').update(idempotencyKey).digest('hex').slice(0, 24)}`;
+    }
+}
+
+export const createPaymentProvider = (name = process.env.PAYMENT_PROVIDER ?? 'fake'): PaymentProvider => {
+    switch (name) {
+        case 'fake':
+            return new FakePaymentProvider(toCents(Number(process.env.FAKE_PAYMENT_DECLINE_ABOVE ?? 500)));
+        default:
+            throw new Error(`Unknown payment provider: ${name}`);
+    }
+};
@@ -0,0 +1,93 @@
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { laneOf } from './lanes';
+import { listOrderItems, type OrderItemRecord } from './orders';
+import { ItemStatus, OrderStatus, type OrderKey } from './orderStatus';
+import { buildItemMessages, buildOutboxEntry } from './outbox';
+
+// Orders with a scheduledFor in the future are stored as SCHEDULED and their items aren't queued until the order is
+// released. A SCHEDULED order is listed in the scheduled-index of the OrdersTable, which is sparse as only SCHEDULED
+// orders have a scheduleStatus. The OrderScheduler releases the orders that are due from the index every minute.
+// Orders due within the 15 minute SQS delay limit also get a release message, sent with that delay to a standard
+// queue as FIFO queues only support a delay for the whole queue, so they are released on time rather than on the minute.
+export const SCHEDULED_INDEX = 'scheduled-index';
+export const SCHEDULE_STATUS_SCHEDULED = 'SCHEDULED';
+
+// the longest DelaySeconds SQS accepts
+export const MAX_DELAY_SECONDS = 15 * 60;
+
+// The release message of an order that is due within the delay limit
+export interface ScheduledRelease {
+    orderId: string;
+    timestamp: string;
+    // the delay is worked out when the message is sent, so a relay that is retried doesn't release the order late
+    scheduledFor: string;
+    correlationId?: string;
+}
+
+const logger = new Logger({ serviceName: 'scheduling' });
+
+// Seconds until the order is due, orders that are due already are processed straight away
+export const secondsUntil = (scheduledFor: string, now = Date.now()): number =>
+    Math.max(0, Math.ceil((Date.parse(scheduledFor) - now) / 1000));
+
+// RELEASED: the order moved to PENDING and its items were written to the outbox
+// NOT_SCHEDULED: the order was released or cancelled before, so nothing was written
+export type ReleaseResult = 'RELEASED' | 'NOT_SCHEDULED';
+
+// Move a SCHEDULED order to PENDING and write the messages of its items to the outbox in one transaction,
+// so an order is never released without its items being queued, nor released twice. The condition on the
+// order also keeps a cancelled order from being released.
+export const releaseScheduledOrder = async (dynamoDB: DynamoDBDocumentClient, key: OrderKey): Promise<ReleaseResult> => {
+    const result = await dynamoDB.send(new GetCommand({
+        TableName: process.env.ORDERS_TABLE_NAME as string,
+        Key: key,
+        ConsistentRead: true
+    }));
+    const order = result.Item;
+    if (order?.orderStatus !== OrderStatus.SCHEDULED) {
+        return 'NOT_SCHEDULED';
+    }
+
+    // the items of a SCHEDULED order can only have been cancelled along with the order, so they are all PENDING
+    const items = (await listOrderItems(dynamoDB, key.orderId)).filter(item => item.itemStatus === ItemStatus.PENDING);
+    const outboxEntry = buildOutboxEntry(`${key.orderId}#release`, key.orderId, buildItemMessages(items as OrderItemRecord[], laneOf(order), order.correlationId));
+    const now = new Date().toISOString();
+
+    try {
+        await dynamoDB.send(new TransactWriteCommand({
+            TransactItems: [
+                {
+                    Update: {
+                        TableName: process.env.ORDERS_TABLE_NAME as string,
+                        Key: key,
+                        UpdateExpression: 'SET orderStatus = :pending, releasedAt = :now, updatedAt = :now REMOVE scheduleStatus',
+                        ConditionExpression: 'orderStatus = :scheduled',
+                        ExpressionAttributeValues: {
+                            ':pending': OrderStatus.PENDING,
+                            ':scheduled': OrderStatus.SCHEDULED,
+                            ':now': now
+                        }
+                    }
+                },
+                {
+                    Put: {
+                        TableName: process.env.OUTBOX_TABLE_NAME as string,
+                        Item: outboxEntry
+                    }
+                }
+            ]
+        }));
+    } catch (error) {
+        const [orderReason] = error instanceof TransactionCanceledException ? error.CancellationReasons ?? [] : [];
+        if (orderReason?.Code === 'ConditionalCheckFailed') {
+            logger.info(`Order ${key.orderId} is no longer SCHEDULED, not releasing it`);
+            return 'NOT_SCHEDULED';
+        }
+        throw error;
+    }
+
+    logger.info(`Released order ${key.orderId} scheduled for ${order.scheduledFor}`, { releasedItems: items.length });
+    return 'RELEASED';
+};
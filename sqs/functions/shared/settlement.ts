@@ -0,0 +1,193 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { Logger } from '@aws-lambda-powertools/logger';
+import { listOrderItems } from './orders';
+import { ACTIVE_ORDER_STATUSES, ItemStatus, OrderStatus, type OrderKey } from './orderStatus';
+import { fromCents, PaymentError, toCents, type PaymentProvider } from './payments';
+
+// The OrderManager authorizes the order's totalValue before its items are enqueued. Once the order reaches
+// a final status it is settled: the value of its PROCESSED items is captured and the rest of the authorization
+// is voided. A CANCELLED order is charged nothing, so anything already captured is refunded.
+// Every payment transaction is appended to paymentTransactions on the order record, and the amounts still
+// to capture, void or refund are worked out from that list, so settling the same order again only moves the difference.
+
+export const PaymentStatus = {
+    AUTHORIZED: 'AUTHORIZED',
+    CAPTURED: 'CAPTURED',
+    VOIDED: 'VOIDED',
+    REFUNDED: 'REFUNDED',
+} as const;
+export type PaymentStatus = typeof PaymentStatus[keyof typeof PaymentStatus];
+
+export interface PaymentTransaction {
+    type: 'AUTHORIZATION' | 'CAPTURE' | 'VOID' | 'REFUND';
+    transactionId: string;
+    amount: number;
+    // the authorization a capture or void was made against, or the capture a refund was made against
+    parentId?: string;
+    createdAt: string;
+}
+
+const logger = new Logger({ serviceName: 'settlement' });
+
+const sumCents = (transactions: PaymentTransaction[], type: PaymentTransaction['type'], parentId?: string): number =>
+    transactions
+        .filter(transaction => transaction.type === type && (parentId === undefined || transaction.parentId === parentId))
+        .reduce((sum, transaction) => sum + toCents(transaction.amount), 0);
+
+export const buildPaymentTransaction = (
+    type: PaymentTransaction['type'],
+    transactionId: string,
+    amountCents: number,
+    parentId?: string
+): PaymentTransaction => ({
+    type,
+    transactionId,
+    amount: fromCents(amountCents),
+    ...(parentId ? { parentId } : {}),
+    createdAt: new Date().toISOString()
+});
+
+// Bring the payments of a finished order in line with its items. Returns the transactions that were made.
+export const settleOrderPayment = async (
+    dynamoDB: DynamoDBDocumentClient,
+    payments: PaymentProvider,
+    order: Record<string, any>
+): Promise<PaymentTransaction[]> => {
+    const existing: PaymentTransaction[] = order.paymentTransactions ?? [];
+    // orders placed before payments were introduced have nothing to settle
+    if (existing.length === 0 || ACTIVE_ORDER_STATUSES.includes(order.orderStatus)) {
+        return [];
+    }
+
+    const items = await listOrderItems(dynamoDB, order.orderId);
+    const chargeCents = order.orderStatus === OrderStatus.CANCELLED
+        ? 0
+        : items
+            .filter(item => item.itemStatus === ItemStatus.PROCESSED)
+            .reduce((sum, item) => sum + toCents(item.price * item.quantity), 0);
+
+    const transactions = [...existing];
+    // the idempotency key is the position of the transaction on the order, so a settlement that is retried
+    // after its transactions were made but before they were stored gets the same transactions back
+    const nextKey = () => `${order.orderId}:${transactions.length}`;
+    const authorizations = () => transactions.filter(transaction => transaction.type === 'AUTHORIZATION');
+    const remainingCents = (authorization: PaymentTransaction) => toCents(authorization.amount)
+        - sumCents(transactions, 'CAPTURE', authorization.transactionId)
+        - sumCents(transactions, 'VOID', authorization.transactionId);
+
+    let netCapturedCents = sumCents(transactions, 'CAPTURE') - sumCents(transactions, 'REFUND');
+
+    // capture what hasn't been yet, for example after a redrive. Once the earlier authorizations are used up
+    // (their remainder was voided when the order first finished) the difference is authorized again
+    if (chargeCents > netCapturedCents) {
+        let captureCents = chargeCents - netCapturedCents;
+        const available = authorizations().reduce((sum, authorization) => sum + remainingCents(authorization), 0);
+        if (captureCents > available) {
+            const authorization = await payments.authorize({
+                orderId: order.orderId,
+                userId: order.userId,
+                amount: captureCents - available,
+                idempotencyKey: nextKey()
+            });
+            if (authorization.status === 'DECLINED') {
+                throw new PaymentError(`Authorization of the remaining amount of order ${order.orderId} was declined: ${authorization.reason}`);
+            }
+            transactions.push(buildPaymentTransaction('AUTHORIZATION', authorization.transactionId, authorization.amount));
+        }
+        for (const authorization of authorizations()) {
+            const amount = Math.min(captureCents, remainingCents(authorization));
+            if (amount <= 0) {
+                continue;
+            }
+            const capture = await payments.capture(authorization.transactionId, amount, nextKey());
+            transactions.push(buildPaymentTransaction('CAPTURE', capture.transactionId, capture.amount, authorization.transactionId));
+            captureCents -= amount;
+        }
+        netCapturedCents = chargeCents;
+    }
+
+    // refund what was captured for items that are no longer charged, most recent captures first
+    if (chargeCents < netCapturedCents) {
+        let refundCents = netCapturedCents - chargeCents;
+        const captures = transactions.filter(transaction => transaction.type === 'CAPTURE').reverse();
+        for (const capture of captures) {
+            const amount = Math.min(refundCents, toCents(capture.amount) - sumCents(transactions, 'REFUND', capture.transactionId));
+            if (amount <= 0) {
+                continue;
+            }
+            const refund = await payments.refund(capture.transactionId, amount, nextKey());
+            transactions.push(buildPaymentTransaction('REFUND', refund.transactionId, refund.amount, capture.transactionId));
+            refundCents -= amount;
+        }
+    }
+
+    // the order is finished, so nothing more will be captured against what is left of the authorizations
+    for (const authorization of authorizations()) {
+        const amount = remainingCents(authorization);
+        if (amount > 0) {
+            const voided = await payments.void(authorization.transactionId, amount, nextKey());
+            transactions.push(buildPaymentTransaction('VOID', voided.transactionId, voided.amount, authorization.transactionId));
+        }
+    }
+
+    const added = transactions.slice(existing.length);
+    if (added.length === 0) {
+        return [];
+    }
+
+    const paymentStatus = chargeCents > 0
+        ? PaymentStatus.CAPTURED
+        : (sumCents(transactions, 'REFUND') > 0 ? PaymentStatus.REFUNDED : PaymentStatus.VOIDED);
+
+    try {
+        // the condition stops two settlements of the same order from both storing their transactions
+        await dynamoDB.send(new UpdateCommand({
+            TableName: process.env.ORDERS_TABLE_NAME as string,
+            Key: { orderId: order.orderId, timestamp: order.timestamp },
+            UpdateExpression: 'SET paymentStatus = :paymentStatus, paymentTransactions = list_append(paymentTransactions, :added), '
+                + 'capturedAmount = :capturedAmount, settledAt = :now',
+            ConditionExpression: 'size(paymentTransactions) = :count',
+            ExpressionAttributeValues: {
+                ':paymentStatus': paymentStatus,
+                ':added': added,
+                ':capturedAmount': fromCents(chargeCents),
+                ':now': new Date().toISOString(),
+                ':count': existing.length
+            }
+        }));
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            logger.info(`Payment of order ${order.orderId} was settled concurrently, leaving it to the other settlement`);
+            return [];
+        }
+        throw error;
+    }
+
+    logger.info(`Settled payment of order ${order.orderId} as ${paymentStatus}`, {
+        orderStatus: order.orderStatus,
+        capturedAmount: fromCents(chargeCents),
+        transactions: added
+    });
+    return added;
+};
+
+// Settle a finished order whose payment is still only AUTHORIZED. Used when a message is retried after an
+// earlier attempt finished the order but failed to settle it, and when a cancellation is retried.
+export const settlePaymentIfDue = async (
+    dynamoDB: DynamoDBDocumentClient,
+    payments: PaymentProvider,
+    key: OrderKey
+): Promise<PaymentTransaction[]> => {
+    const result = await dynamoDB.send(new GetCommand({
+        TableName: process.env.ORDERS_TABLE_NAME as string,
+        Key: key,
+        ConsistentRead: true
+    }));
+
+    const order = result.Item;
+    if (!order || order.paymentStatus !== PaymentStatus.AUTHORIZED || ACTIVE_ORDER_STATUSES.includes(order.orderStatus)) {
+        return [];
+    }
+    return settleOrderPayment(dynamoDB, payments, order);
+};
@@ -0,0 +1,92 @@
+import { ConditionalCheckFailedException } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, GetCommand, ScanCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+
+// Addresses that hard bounced or complained are recorded in the SuppressionTable and are never emailed again,
+// as sending to them hurts the sender's reputation. Addresses are stored in lower case so lookups ignore case.
+
+export const SuppressionReason = {
+    BOUNCE: 'BOUNCE',
+    COMPLAINT: 'COMPLAINT',
+} as const;
+export type SuppressionReason = typeof SuppressionReason[keyof typeof SuppressionReason];
+
+export interface SuppressedAddress {
+    email: string;
+    reason: SuppressionReason;
+    // the bounce sub type or complaint feedback type reported by SES
+    detail?: string;
+    // the SES message that caused the latest event
+    messageId?: string;
+    suppressedAt: string;
+    lastEventAt: string;
+    eventCount: number;
+}
+
+export interface SuppressionEvent {
+    email: string;
+    reason: SuppressionReason;
+    detail?: string;
+    messageId?: string;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const isSuppressed = async (dynamoDB: DynamoDBDocumentClient, email: string): Promise<boolean> => {
+    const tableName = process.env.SUPPRESSION_TABLE_NAME;
+    if (!tableName) {
+        return false;
+    }
+    const result = await dynamoDB.send(new GetCommand({
+        TableName: tableName,
+        Key: { email: normalizeEmail(email) }
+    }));
+    return result.Item !== undefined;
+};
+
+// Record a bounce or complaint, keeping the time the address was first suppressed when it already was
+export const suppressAddress = async (dynamoDB: DynamoDBDocumentClient, event: SuppressionEvent): Promise<void> => {
+    const now = new Date().toISOString();
+    await dynamoDB.send(new UpdateCommand({
+        TableName: process.env.SUPPRESSION_TABLE_NAME as string,
+        Key: { email: normalizeEmail(event.email) },
+        UpdateExpression: 'SET reason = :reason, detail = :detail, messageId = :messageId, '
+            + 'suppressedAt = if_not_exists(suppressedAt, :now), lastEventAt = :now ADD eventCount :one',
+        ExpressionAttributeValues: {
+            ':reason': event.reason,
+            ':detail': event.detail ?? null,
+            ':messageId': event.messageId ?? null,
+            ':now': now,
+            ':one': 1
+        }
+    }));
+};
+
+export const listSuppressedAddresses = async (
+    dynamoDB: DynamoDBDocumentClient,
+    limit: number,
+    exclusiveStartKey?: Record<string, any>
+): Promise<{ items: SuppressedAddress[]; lastEvaluatedKey?: Record<string, any> }> => {
+    const result = await dynamoDB.send(new ScanCommand({
+        TableName: process.env.SUPPRESSION_TABLE_NAME as string,
+        Limit: limit,
+        ExclusiveStartKey: exclusiveStartKey
+    }));
+    return { items: (result.Items ?? []) as SuppressedAddress[], lastEvaluatedKey: result.LastEvaluatedKey };
+};
+
+// Returns false if the address wasn't suppressed
+export const removeSuppressedAddress = async (dynamoDB: DynamoDBDocumentClient, email: string): Promise<boolean> => {
+    try {
+        await dynamoDB.send(new DeleteCommand({
+            TableName: process.env.SUPPRESSION_TABLE_NAME as string,
+            Key: { email: normalizeEmail(email) },
+            ConditionExpression: 'attribute_exists(email)'
+        }));
+        return true;
+    } catch (error) {
+        if (error instanceof ConditionalCheckFailedException) {
+            return false;
+        }
+        throw error;
+    }
+};
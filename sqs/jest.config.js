@@ -0,0 +1,10 @@
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/test'],
+  testMatch: ['**/*.test.ts'],
+  setupFiles: ['<rootDir>/test/setup.ts'],
+  transform: {
+    // the functions are compiled as CommonJS for the tests, so the NodeNext module warning doesn't apply
+    '^.+\\.tsx?$': ['ts-jest', { diagnostics: { ignoreCodes: ['TS151002'] } }]
+  }
+};
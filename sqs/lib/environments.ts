@@ -0,0 +1,84 @@
+import * as cdk from 'aws-cdk-lib';
+import type { PriorityLanes } from '../functions/shared/lanes';
+import type { LaneSettings, SqsStackProps } from './sqs-stack';
+
+// A lane as it is written in cdk.json, see LaneSettings
+export interface LaneEnvironmentSettings {
+  visibilityTimeoutSeconds?: number;
+  retentionDays?: number;
+  maxReceiveCount?: number;
+  batchSize?: number;
+  processorTimeoutSeconds?: number;
+  reservedConcurrency?: number;
+  maxConcurrency?: number;
+}
+
+// An environment as it is written in the `environments` context of cdk.json. The context is plain JSON,
+// so durations are given in seconds or days and the removal policy as a flag.
+export interface EnvironmentSettings {
+  namePrefix?: string;
+  retainData?: boolean;
+  pointInTimeRecovery?: boolean;
+  kmsEncryption?: boolean;
+  lanes?: {
+    standard?: LaneEnvironmentSettings;
+    express?: LaneEnvironmentSettings;
+  };
+  priorityLanes?: Partial<PriorityLanes>;
+  dlqRetentionDays?: number;
+  outboxRetryAttempts?: number;
+  notificationSender?: string;
+  opsEmail?: string;
+  alarms?: {
+    dlqDepth?: number;
+    oldestMessageAgeSeconds?: number;
+  };
+}
+
+const seconds = (value?: number) => (value === undefined ? undefined : cdk.Duration.seconds(value));
+const days = (value?: number) => (value === undefined ? undefined : cdk.Duration.days(value));
+
+const toLaneSettings = (settings: LaneEnvironmentSettings = {}): LaneSettings => ({
+  visibilityTimeout: seconds(settings.visibilityTimeoutSeconds),
+  retentionPeriod: days(settings.retentionDays),
+  maxReceiveCount: settings.maxReceiveCount,
+  batchSize: settings.batchSize,
+  processorTimeout: seconds(settings.processorTimeoutSeconds),
+  reservedConcurrency: settings.reservedConcurrency,
+  maxConcurrency: settings.maxConcurrency,
+});
+
+export const toStackProps = (settings: EnvironmentSettings): SqsStackProps => ({
+  namePrefix: settings.namePrefix,
+  removalPolicy: settings.retainData ? cdk.RemovalPolicy.RETAIN : cdk.RemovalPolicy.DESTROY,
+  pointInTimeRecovery: settings.pointInTimeRecovery,
+  kmsEncryption: settings.kmsEncryption,
+  lanes: {
+    standard: toLaneSettings(settings.lanes?.standard),
+    express: toLaneSettings(settings.lanes?.express),
+  },
+  priorityLanes: settings.priorityLanes,
+  dlqRetentionPeriod: days(settings.dlqRetentionDays),
+  outboxRetryAttempts: settings.outboxRetryAttempts,
+  notificationSender: settings.notificationSender,
+  opsEmail: settings.opsEmail,
+  alarms: {
+    dlqDepth: settings.alarms?.dlqDepth,
+    oldestMessageAge: seconds(settings.alarms?.oldestMessageAgeSeconds),
+  },
+});
+
+// The props of the environment picked with `cdk deploy -c env=<name>`
+export const environmentStackProps = (app: cdk.App, name: string): SqsStackProps => {
+  const environments: Record<string, EnvironmentSettings> = app.node.tryGetContext('environments') ?? {};
+  const settings = environments[name];
+  if (!settings) {
+    throw new Error(`Unknown environment '${name}', cdk.json defines: ${Object.keys(environments).join(', ')}`);
+  }
+  return {
+    ...toStackProps(settings),
+    // each environment deploys the REST API to a stage named after it
+    apiStageName: name,
+    tags: { environment: name },
+  };
+};
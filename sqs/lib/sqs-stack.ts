@@ -4,19 +4,147 @@ import * as sqs from 'aws-cdk-lib/aws-sqs';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as dynamodb from 'aws-cdk-lib/aws-dynamodb';
 import * as lambdaEventSources from 'aws-cdk-lib/aws-lambda-event-sources';
+import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as iam from 'aws-cdk-lib/aws-iam';
+import * as ses from 'aws-cdk-lib/aws-ses';
+import * as sns from 'aws-cdk-lib/aws-sns';
+import * as snsSubscriptions from 'aws-cdk-lib/aws-sns-subscriptions';
+import * as kms from 'aws-cdk-lib/aws-kms';
+import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
+import * as cloudwatchActions from 'aws-cdk-lib/aws-cloudwatch-actions';
+import * as events from 'aws-cdk-lib/aws-events';
+import * as eventsTargets from 'aws-cdk-lib/aws-events-targets';
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs';
+import { DOMAIN_EVENT_SOURCE, DomainEventType } from '../functions/shared/domainEvents';
+import { Lane, loadPriorityLanes, type PriorityLanes } from '../functions/shared/lanes';
+import { MetricName, MetricService } from '../functions/shared/observability';
+import { SCHEDULED_INDEX } from '../functions/shared/scheduling';
+
+// Retry and concurrency settings of a lane's FIFO queue and the OrderProcessor that consumes it
+export interface LaneSettings {
+  // must be at least the processor timeout, or a message becomes visible again while it is still being processed
+  readonly visibilityTimeout?: cdk.Duration;
+  readonly retentionPeriod?: cdk.Duration;
+  // receives before a message is moved to the lane's DLQ
+  readonly maxReceiveCount?: number;
+  // messages per OrderProcessor invocation, at most 10 for a FIFO queue
+  readonly batchSize?: number;
+  readonly processorTimeout?: cdk.Duration;
+  // concurrency set aside for the lane's OrderProcessor, so a busy account can't starve the lane
+  readonly reservedConcurrency?: number;
+  // most OrderProcessor invocations the queue triggers at once, between 2 and 1000
+  readonly maxConcurrency?: number;
+}
+
+// The express lane gets smaller batches and gives up on a message sooner, so a slow item holds up fewer others
+const LANE_DEFAULTS: Record<Lane, Required<Omit<LaneSettings, 'reservedConcurrency' | 'maxConcurrency'>>> = {
+  standard: {
+    visibilityTimeout: cdk.Duration.seconds(30),
+    retentionPeriod: cdk.Duration.days(4),
+    maxReceiveCount: 3,
+    batchSize: 10,
+    processorTimeout: cdk.Duration.seconds(30),
+  },
+  express: {
+    visibilityTimeout: cdk.Duration.seconds(15),
+    retentionPeriod: cdk.Duration.days(4),
+    maxReceiveCount: 3,
+    batchSize: 5,
+    processorTimeout: cdk.Duration.seconds(15),
+  },
+};
+
+// Thresholds of the alarms that notify the ops email address
+export interface AlarmSettings {
+  // messages on a DLQ, every message there is an item that needs to be reviewed
+  readonly dlqDepth?: number;
+  // age of the oldest message on a lane's queue, a growing age means its OrderProcessor isn't keeping up
+  readonly oldestMessageAge?: cdk.Duration;
+}
+
+// Every setting defaults to the values of the original single stack, so `new SqsStack(app, 'SqsStack')`
+// deploys the same resource names as before. See lib/environments.ts for the variants in cdk.json.
+export interface SqsStackProps extends cdk.StackProps {
+  // prepended to every table, queue, topic, template and API name so several copies of the stack can share an account
+  readonly namePrefix?: string;
+  // applied to the tables, queues and encryption key, use RETAIN to keep the data when the stack is deleted
+  readonly removalPolicy?: cdk.RemovalPolicy;
+  readonly pointInTimeRecovery?: boolean;
+  // encrypt the tables, queues and SES events topic with a customer managed KMS key instead of AWS owned keys
+  readonly kmsEncryption?: boolean;
+  readonly lanes?: Partial<Record<Lane, LaneSettings>>;
+  // the lane of each order priority, priorities that are left out keep their default lane
+  readonly priorityLanes?: Partial<PriorityLanes>;
+  readonly dlqRetentionPeriod?: cdk.Duration;
+  // how often the OutboxRelay retries a stream batch before sending it to the failure queue
+  readonly outboxRetryAttempts?: number;
+  // SES identities are per account, so environments sharing an account need different senders
+  readonly notificationSender?: string;
+  readonly opsEmail?: string;
+  readonly alarms?: AlarmSettings;
+  // the stage the REST API is deployed to, which is part of its URL
+  readonly apiStageName?: string;
+}
 
 export class SqsStack extends cdk.Stack {
-  constructor(scope: Construct, id: string, props?: cdk.StackProps) {
+  constructor(scope: Construct, id: string, props: SqsStackProps = {}) {
     super(scope, id, props);
 
+    const namePrefix = props.namePrefix ?? '';
+    const prefixed = (name: string) => `${namePrefix}${name}`;
+    const removalPolicy = props.removalPolicy ?? cdk.RemovalPolicy.DESTROY;
+    const laneSettings = (lane: Lane) => {
+      const settings = props.lanes?.[lane] ?? {};
+      const defaults = LANE_DEFAULTS[lane];
+      return {
+        visibilityTimeout: settings.visibilityTimeout ?? defaults.visibilityTimeout,
+        retentionPeriod: settings.retentionPeriod ?? defaults.retentionPeriod,
+        maxReceiveCount: settings.maxReceiveCount ?? defaults.maxReceiveCount,
+        batchSize: settings.batchSize ?? defaults.batchSize,
+        processorTimeout: settings.processorTimeout ?? defaults.processorTimeout,
+        reservedConcurrency: settings.reservedConcurrency,
+        maxConcurrency: settings.maxConcurrency,
+      };
+    };
+    for (const lane of Object.values(Lane)) {
+      const { visibilityTimeout, processorTimeout } = laneSettings(lane);
+      if (visibilityTimeout.toSeconds() < processorTimeout.toSeconds()) {
+        throw new Error(`The ${lane} queue visibility timeout (${visibilityTimeout.toSeconds()}s) `
+          + `must be at least the OrderProcessor timeout (${processorTimeout.toSeconds()}s)`);
+      }
+    }
+    // validated here, so a typo in the routing rules fails the synth rather than every order
+    const priorityLanes = loadPriorityLanes(JSON.stringify(props.priorityLanes ?? {}));
+
+    const encryptionKey = props.kmsEncryption
+      ? new kms.Key(this, 'DataKey', {
+        alias: `alias/${prefixed('sqs-demo-data')}`,
+        description: 'Encrypts the order tables, queues and SES events topic',
+        enableKeyRotation: true,
+        removalPolicy,
+      })
+      : undefined;
+
+    // Shared by every table
+    const tableSettings = {
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      removalPolicy,
+      ...(props.pointInTimeRecovery ? { pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true } } : {}),
+      ...(encryptionKey ? { encryption: dynamodb.TableEncryption.CUSTOMER_MANAGED, encryptionKey } : {}),
+    };
+
+    // Shared by every queue, the key is also granted to the functions that send and receive
+    const queueSettings = {
+      removalPolicy,
+      ...(encryptionKey ? { encryption: sqs.QueueEncryption.KMS, encryptionMasterKey: encryptionKey } : {}),
+    };
+
     // DynamoDB Table for storing orders
     const ordersTable = new dynamodb.Table(this, 'OrdersTable', {
-      tableName: 'OrdersTable',
+      tableName: prefixed('OrdersTable'),
       partitionKey: { name: 'orderId', type: dynamodb.AttributeType.STRING },
       sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
-      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      ...tableSettings,
     });
 
     // Add Global Secondary Index for querying by userId
@@ -26,13 +154,20 @@ export class SqsStack extends cdk.Stack {
       sortKey: { name: 'timestamp', type: dynamodb.AttributeType.STRING },
     });
 
+    // Sparse index of the SCHEDULED orders by the time they are due, only they have a scheduleStatus
+    ordersTable.addGlobalSecondaryIndex({
+      indexName: SCHEDULED_INDEX,
+      partitionKey: { name: 'scheduleStatus', type: dynamodb.AttributeType.STRING },
+      sortKey: { name: 'scheduledFor', type: dynamodb.AttributeType.STRING },
+      projectionType: dynamodb.ProjectionType.KEYS_ONLY,
+    });
+
     // DynamoDB Table for storing individual order items
     const orderItemsTable = new dynamodb.Table(this, 'OrderItemsTable', {
-      tableName: 'OrderItemsTable',
+      tableName: prefixed('OrderItemsTable'),
       partitionKey: { name: 'orderId', type: dynamodb.AttributeType.STRING },
       sortKey: { name: 'itemId', type: dynamodb.AttributeType.STRING },
-      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
-      removalPolicy: cdk.RemovalPolicy.DESTROY,
+      ...tableSettings,
     });
 
     // Add Global Secondary Index for querying by item status
@@ -49,59 +184,398 @@ export class SqsStack extends cdk.Stack {
         type: dynamodb.AttributeType.STRING,
       },
       timeToLiveAttribute: 'expiration',
-      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      ...tableSettings,
     });
 
-    // Dead Letter Queue (DLQ) holds messages that have failed processing after maximum retries
-    const dlq = new sqs.Queue(this, 'DeadLetterQueue', {
-      queueName: 'sqs-dlq.fifo',
-      fifo: true,
-      contentBasedDeduplication: true,
+    // The outbox holds the messages that are written in the same transaction as the orders and items they describe
+    // the OutboxRelay publishes them to SQS from the table's stream
+    const outboxTable = new dynamodb.Table(this, 'OutboxTable', {
+      tableName: prefixed('OutboxTable'),
+      partitionKey: { name: 'outboxId', type: dynamodb.AttributeType.STRING },
+      stream: dynamodb.StreamViewType.NEW_IMAGE,
+      timeToLiveAttribute: 'expiresAt',
+      ...tableSettings,
+    });
+
+    // Addresses that hard bounced or complained, notifications are never sent to them
+    const suppressionTable = new dynamodb.Table(this, 'SuppressionTable', {
+      tableName: prefixed('SuppressionTable'),
+      partitionKey: { name: 'email', type: dynamodb.AttributeType.STRING },
+      ...tableSettings,
+    });
+
+    // Units of stock available per SKU, the OrderProcessor reserves an item's quantity before processing it
+    const inventoryTable = new dynamodb.Table(this, 'InventoryTable', {
+      tableName: prefixed('InventoryTable'),
+      partitionKey: { name: 'sku', type: dynamodb.AttributeType.STRING },
+      ...tableSettings,
+    });
+
+    // Items are processed in a standard and an express lane, see functions/shared/lanes.ts. Each lane has its own
+    // FIFO queue, DLQ and OrderProcessor. The standard lane keeps the ids and names of the original single queue.
+    const createLaneQueues = (lane: Lane, ids: { queue: string; dlq: string }, names: { queue: string; dlq: string }) => {
+      const settings = laneSettings(lane);
+
+      // Dead Letter Queue (DLQ) holds messages that have failed processing after maximum retries
+      const dlq = new sqs.Queue(this, ids.dlq, {
+        queueName: prefixed(names.dlq),
+        fifo: true,
+        contentBasedDeduplication: true,
+        visibilityTimeout: cdk.Duration.seconds(30),
+        retentionPeriod: props.dlqRetentionPeriod ?? cdk.Duration.days(14),
+        ...queueSettings,
+      });
+
+      const queue = new sqs.Queue(this, ids.queue, {
+        queueName: prefixed(names.queue),
+        fifo: true,
+        contentBasedDeduplication: false, // we're passing a deduplication id to the queue
+        visibilityTimeout: settings.visibilityTimeout,
+        retentionPeriod: settings.retentionPeriod,
+        deadLetterQueue: {
+          queue: dlq,
+          maxReceiveCount: settings.maxReceiveCount,
+        },
+        ...queueSettings,
+      });
+
+      return { queue, dlq };
+    };
+
+    const laneQueues: Record<Lane, { queue: sqs.Queue; dlq: sqs.Queue }> = {
+      standard: createLaneQueues(Lane.STANDARD,
+        { queue: 'OrdersFifoQueue', dlq: 'DeadLetterQueue' },
+        { queue: 'sqs-main-queue.fifo', dlq: 'sqs-dlq.fifo' }),
+      express: createLaneQueues(Lane.EXPRESS,
+        { queue: 'ExpressOrdersFifoQueue', dlq: 'ExpressDeadLetterQueue' },
+        { queue: 'sqs-express-queue.fifo', dlq: 'sqs-express-dlq.fifo' }),
+    };
+    const { queue, dlq } = laneQueues.standard;
+    const { queue: expressQueue, dlq: expressDlq } = laneQueues.express;
+
+    // The OutboxRelay sends to the queue of each item's lane, the RedriveManager inspects the DLQ of a lane
+    const laneQueueEnvironment = {
+      STANDARD_QUEUE_URL: queue.queueUrl,
+      EXPRESS_QUEUE_URL: expressQueue.queueUrl,
+    };
+    const laneDlqEnvironment = {
+      STANDARD_DLQ_URL: dlq.queueUrl,
+      EXPRESS_DLQ_URL: expressDlq.queueUrl,
+    };
+
+    // Release messages of the orders that are due within 15 minutes, each delayed until its order is due.
+    // FIFO queues only support a delay for the whole queue, so this is a standard queue.
+    const scheduledQueue = new sqs.Queue(this, 'ScheduledOrdersQueue', {
+      queueName: prefixed('sqs-scheduled-orders'),
       visibilityTimeout: cdk.Duration.seconds(30),
-      retentionPeriod: cdk.Duration.days(14),
+      retentionPeriod: cdk.Duration.days(1),
+      ...queueSettings,
     });
 
-    // Main FIFO SQS Queue
-    const queue = new sqs.Queue(this, 'OrdersFifoQueue', {
-      queueName: 'sqs-main-queue.fifo',
-      fifo: true,
-      contentBasedDeduplication: false, // we're passing a deduplication id to the queue
+    // Compensation events are published for items that were already processed when their order was cancelled
+    const compensationQueue = new sqs.Queue(this, 'CompensationQueue', {
+      queueName: prefixed('sqs-compensation-queue'),
       visibilityTimeout: cdk.Duration.seconds(30),
-      retentionPeriod: cdk.Duration.days(4),
-      deadLetterQueue: {
-        queue: dlq,
-        maxReceiveCount: 3,
+      retentionPeriod: cdk.Duration.days(14),
+      ...queueSettings,
+    });
+
+    // Domain events about orders and their items are published to this bus, see functions/shared/domainEvents.ts
+    const orderEventBus = new events.EventBus(this, 'OrderEventBus', {
+      eventBusName: prefixed('order-events'),
+    });
+    const eventBusEnvironment = {
+      ORDER_EVENT_BUS_NAME: orderEventBus.eventBusName,
+    };
+
+    // Example subscribers, other services add rules of their own to the bus.
+    // Finished and cancelled orders, pinned to the version of the events the subscriber understands
+    const orderOutcomesQueue = new sqs.Queue(this, 'OrderOutcomesQueue', {
+      queueName: prefixed('sqs-order-outcome-events'),
+      retentionPeriod: cdk.Duration.days(14),
+      ...queueSettings,
+    });
+    new events.Rule(this, 'OrderOutcomesRule', {
+      ruleName: prefixed('order-outcome-events'),
+      description: 'Example subscriber to the orders that finished or were cancelled',
+      eventBus: orderEventBus,
+      eventPattern: {
+        source: [DOMAIN_EVENT_SOURCE],
+        detailType: [DomainEventType.ORDER_COMPLETED, DomainEventType.ORDER_CANCELLED],
+        detail: { metadata: { version: [1] } },
+      },
+      targets: [new eventsTargets.SqsQueue(orderOutcomesQueue)],
+    });
+
+    // Items that ran out of stock, matched on the content of the event, for restocking
+    const outOfStockQueue = new sqs.Queue(this, 'OutOfStockQueue', {
+      queueName: prefixed('sqs-out-of-stock-events'),
+      retentionPeriod: cdk.Duration.days(14),
+      ...queueSettings,
+    });
+    new events.Rule(this, 'OutOfStockRule', {
+      ruleName: prefixed('out-of-stock-events'),
+      description: 'Example subscriber to the items that ran out of stock',
+      eventBus: orderEventBus,
+      eventPattern: {
+        source: [DOMAIN_EVENT_SOURCE],
+        detailType: [DomainEventType.ITEM_FAILED],
+        detail: { data: { itemStatus: ['OUT_OF_STOCK'] } },
       },
+      targets: [new eventsTargets.SqsQueue(outOfStockQueue)],
     });
 
-    // OrderManager function accepts orders with a list of items that are sent to the SQS FIFO queue
+    // Order notifications are sent through SES. LocalStack verifies the sender identity straight away,
+    // on AWS the sender has to confirm the verification email first.
+    const notificationSender = props.notificationSender ?? 'orders@localstack.cloud';
+    const opsEmail = props.opsEmail ?? 'ops@localstack.cloud';
+
+    // Bounces, complaints and rejected emails are published to this topic
+    const sesEventsTopic = new sns.Topic(this, 'SesEventsTopic', {
+      topicName: prefixed('sqs-ses-events-topic'),
+      displayName: 'SES Events Topic',
+      masterKey: encryptionKey,
+    });
+    // SES publishes the events itself, so it needs to use the key of an encrypted topic
+    encryptionKey?.grant(new iam.ServicePrincipal('ses.amazonaws.com'), 'kms:GenerateDataKey*', 'kms:Decrypt');
+
+    const notificationConfigurationSet = new ses.ConfigurationSet(this, 'NotificationConfigurationSet', {
+      configurationSetName: prefixed('sqs-order-notifications'),
+      reputationMetrics: true,
+    });
+    notificationConfigurationSet.addEventDestination('ToSns', {
+      destination: ses.EventDestination.snsTopic(sesEventsTopic),
+      events: [ses.EmailSendingEvent.REJECT, ses.EmailSendingEvent.BOUNCE, ses.EmailSendingEvent.COMPLAINT],
+    });
+
+    new ses.EmailIdentity(this, 'NotificationSenderIdentity', {
+      identity: ses.Identity.email(notificationSender),
+      configurationSet: notificationConfigurationSet,
+    });
+
+    // The templates are rendered by SES with the data sent by the functions, see functions/shared/notifications.ts
+    const notificationTemplates = [
+      {
+        id: 'OrderReceivedTemplate',
+        templateName: prefixed('OrderReceived'),
+        subjectPart: 'We received your order {{orderId}}',
+        textPart: 'Thanks for your order {{orderId}}. We received {{itemCount}} items with a total value of ${{totalValue}} and will let you know once they have been processed.',
+        htmlPart: '<h1>Thanks for your order</h1><p>We received order <strong>{{orderId}}</strong> and will let you know once it has been processed.</p>'
+          + '<ul>{{#each items}}<li>{{quantity}} x {{itemDetail}} (${{price}})</li>{{/each}}</ul><p>Total: ${{totalValue}}</p>',
+      },
+      {
+        id: 'OrderCompletedTemplate',
+        templateName: prefixed('OrderCompleted'),
+        subjectPart: 'Your order {{orderId}} is {{orderStatus}}',
+        textPart: 'Your order {{orderId}} has finished processing with status {{orderStatus}}: {{processedItems}} of {{totalItems}} items were processed and {{failedItems}} failed.',
+        htmlPart: '<h1>Your order has finished processing</h1><p>Order <strong>{{orderId}}</strong> is {{orderStatus}}.</p>'
+          + '<p>{{processedItems}} of {{totalItems}} items were processed and {{failedItems}} failed.</p>',
+      },
+      {
+        id: 'ItemFailedTemplate',
+        templateName: prefixed('ItemFailed'),
+        subjectPart: 'Item {{itemId}} on order {{orderId}} failed',
+        textPart: 'Item {{itemId}} ({{quantity}} x {{itemDetail}} at ${{price}}) on order {{orderId}} for user {{userId}} failed after the maximum number of retries and needs to be reviewed.',
+        htmlPart: '<h1>Item failed</h1><p>Item <strong>{{itemId}}</strong> ({{quantity}} x {{itemDetail}} at ${{price}}) on order {{orderId}} for user {{userId}}'
+          + ' failed after the maximum number of retries and needs to be reviewed.</p>',
+      },
+    ];
+    for (const { id, ...template } of notificationTemplates) {
+      new ses.CfnTemplate(this, id, { template });
+    }
+
+    const notificationEnvironment = {
+      NOTIFICATION_SENDER: notificationSender,
+      NOTIFICATION_CONFIGURATION_SET: notificationConfigurationSet.configurationSetName,
+      ORDER_RECEIVED_TEMPLATE: prefixed('OrderReceived'),
+      ORDER_COMPLETED_TEMPLATE: prefixed('OrderCompleted'),
+      ITEM_FAILED_TEMPLATE: prefixed('ItemFailed'),
+      SUPPRESSION_TABLE_NAME: suppressionTable.tableName,
+    };
+
+    // Orders are paid through the fake payment provider, which runs without a payment account.
+    // It declines any order worth more than the limit, so declines can be tried out too.
+    const paymentEnvironment = {
+      PAYMENT_PROVIDER: 'fake',
+      FAKE_PAYMENT_DECLINE_ABOVE: '500',
+    };
+
+    // The functions on the order path publish Powertools metrics under this namespace and send traces to X-Ray,
+    // see functions/shared/observability.ts
+    const metricsNamespace = prefixed('OrderPipeline');
+    const observabilityEnvironment = {
+      POWERTOOLS_METRICS_NAMESPACE: metricsNamespace,
+    };
+
+    const sendNotificationsPolicy = new iam.PolicyStatement({
+      actions: ['ses:SendTemplatedEmail'],
+      resources: [
+        this.formatArn({ service: 'ses', resource: 'identity', resourceName: notificationSender }),
+        this.formatArn({ service: 'ses', resource: 'configuration-set', resourceName: notificationConfigurationSet.configurationSetName }),
+        ...notificationTemplates.map(template => this.formatArn({ service: 'ses', resource: 'template', resourceName: template.templateName })),
+      ],
+    });
+
+    // SesEventProcessor records hard bounces and complaints from the SES events topic in the SuppressionTable
+    const sesEventProcessorFunction = new NodejsFunction(this, 'sesEventProcessorFunction', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'functions/SesEventProcessor/index.ts',
+      environment: {
+        SUPPRESSION_TABLE_NAME: suppressionTable.tableName,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    suppressionTable.grantReadWriteData(sesEventProcessorFunction);
+    sesEventsTopic.addSubscription(new snsSubscriptions.LambdaSubscription(sesEventProcessorFunction));
+
+    // OrderManager function accepts orders with a list of items that are sent to the SQS FIFO queue of their lane
     const orderManagerFunction = new NodejsFunction(this, 'orderManagerFunction', {
       runtime: lambda.Runtime.NODEJS_20_X,
       handler: 'handler',
       entry: 'functions/OrderManager/index.ts',
       environment: {
         IDEMPOTENCY_TABLE_NAME: idempotencyTable.tableName,
-        ORDERS_FIFO_QUEUE_URL: queue.queueUrl,
+        ORDERS_TABLE_NAME: ordersTable.tableName,
+        ORDER_ITEMS_TABLE_NAME: orderItemsTable.tableName,
+        OUTBOX_TABLE_NAME: outboxTable.tableName,
+        MAX_ORDER_ITEMS: '25',
+        UNKNOWN_FIELD_POLICY: 'reject', // or 'strip' to silently drop unknown fields
+        PRIORITY_LANES: JSON.stringify(priorityLanes),
+        MAX_SCHEDULE_DAYS: '30',
+        ...notificationEnvironment,
+        ...paymentEnvironment,
+        ...observabilityEnvironment,
       },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE,
     });
+    orderManagerFunction.addToRolePolicy(sendNotificationsPolicy);
+    suppressionTable.grantReadData(orderManagerFunction);
     idempotencyTable.grantReadWriteData(orderManagerFunction);
     ordersTable.grantReadWriteData(orderManagerFunction);
     orderItemsTable.grantReadWriteData(orderManagerFunction);
-    queue.grantSendMessages(orderManagerFunction);
+    outboxTable.grantReadWriteData(orderManagerFunction);
+
+    // Messages that the OutboxRelay couldn't publish after retrying are sent here with the stream position to replay
+    const outboxRelayFailureQueue = new sqs.Queue(this, 'OutboxRelayFailureQueue', {
+      queueName: prefixed('sqs-outbox-relay-failures'),
+      retentionPeriod: cdk.Duration.days(14),
+      ...queueSettings,
+    });
+
+    // OutboxRelay publishes new outbox entries to the SQS FIFO queues, and their events to the order events bus
+    const outboxRelayFunction = new NodejsFunction(this, 'outboxRelayFunction', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'functions/OutboxRelay/index.ts',
+      environment: {
+        OUTBOX_TABLE_NAME: outboxTable.tableName,
+        ...laneQueueEnvironment,
+        SCHEDULED_QUEUE_URL: scheduledQueue.queueUrl,
+        ...eventBusEnvironment,
+      },
+      timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE,
+    });
+    outboxTable.grantReadWriteData(outboxRelayFunction);
+    orderEventBus.grantPutEventsTo(outboxRelayFunction);
+    for (const { queue: laneQueue } of Object.values(laneQueues)) {
+      laneQueue.grantSendMessages(outboxRelayFunction);
+    }
+    scheduledQueue.grantSendMessages(outboxRelayFunction);
+
+    outboxRelayFunction.addEventSource(new lambdaEventSources.DynamoEventSource(outboxTable, {
+      startingPosition: lambda.StartingPosition.TRIM_HORIZON,
+      batchSize: 10,
+      retryAttempts: props.outboxRetryAttempts ?? 10,
+      reportBatchItemFailures: true, // Retry from the first entry that failed rather than the entire batch
+      onFailure: new lambdaEventSources.SqsDlq(outboxRelayFailureQueue),
+    }));
 
-    // OrderProcessor processes individual order items from the SQS FIFO queue
-    const orderProcessorFunction = new NodejsFunction(this, 'orderProcessorFunction', {
+    // OrderScheduler releases the SCHEDULED orders that are due, their items are then sent through the outbox
+    const orderSchedulerFunction = new NodejsFunction(this, 'orderSchedulerFunction', {
       runtime: lambda.Runtime.NODEJS_20_X,
       handler: 'handler',
-      entry: 'functions/OrderProcessor/index.ts',
+      entry: 'functions/OrderScheduler/index.ts',
       environment: {
         ORDERS_TABLE_NAME: ordersTable.tableName,
         ORDER_ITEMS_TABLE_NAME: orderItemsTable.tableName,
+        OUTBOX_TABLE_NAME: outboxTable.tableName,
       },
-      timeout: cdk.Duration.seconds(30),
+      timeout: cdk.Duration.seconds(60),
+      tracing: lambda.Tracing.ACTIVE,
     });
-    ordersTable.grantReadWriteData(orderProcessorFunction);
-    orderItemsTable.grantReadWriteData(orderProcessorFunction);
+    ordersTable.grantReadWriteData(orderSchedulerFunction);
+    orderItemsTable.grantReadData(orderSchedulerFunction);
+    outboxTable.grantReadWriteData(orderSchedulerFunction);
+    scheduledQueue.grantConsumeMessages(orderSchedulerFunction);
+
+    // Orders due within 15 minutes are released on time by their delayed message
+    orderSchedulerFunction.addEventSource(new lambdaEventSources.SqsEventSource(scheduledQueue, {
+      batchSize: 10,
+      reportBatchItemFailures: true,
+    }));
+
+    // Later orders are picked up from the scheduled-index, which also catches any release message that was lost
+    new events.Rule(this, 'OrderSchedulerRule', {
+      ruleName: prefixed('sqs-order-scheduler'),
+      description: 'Releases the scheduled orders that are due',
+      schedule: events.Schedule.rate(cdk.Duration.minutes(1)),
+      targets: [new eventsTargets.LambdaFunction(orderSchedulerFunction)],
+    });
+
+    // The parameter isn't created by the stack, as the OrderProcessor falls back to its default rules when it doesn't exist
+    const failureRulesParameterName = `/sqs-demo/${prefixed('failure-rules')}`;
+
+    // OrderProcessor processes individual order items from the SQS FIFO queue of its lane
+    const createOrderProcessor = (lane: Lane, id: string) => {
+      const settings = laneSettings(lane);
+      const orderProcessorFunction = new NodejsFunction(this, id, {
+        runtime: lambda.Runtime.NODEJS_20_X,
+        handler: 'handler',
+        entry: 'functions/OrderProcessor/index.ts',
+        environment: {
+          ORDERS_TABLE_NAME: ordersTable.tableName,
+          ORDER_ITEMS_TABLE_NAME: orderItemsTable.tableName,
+          INVENTORY_TABLE_NAME: inventoryTable.tableName,
+          // failure rules can be set on demand in this parameter, see the Makefile
+          FAILURE_RULES_PARAMETER: failureRulesParameterName,
+          // added to the processor's metrics as a dimension
+          LANE: lane,
+          ...notificationEnvironment,
+          ...paymentEnvironment,
+          ...observabilityEnvironment,
+          ...eventBusEnvironment,
+        },
+        timeout: settings.processorTimeout,
+        reservedConcurrentExecutions: settings.reservedConcurrency,
+        tracing: lambda.Tracing.ACTIVE,
+      });
+      ordersTable.grantReadWriteData(orderProcessorFunction);
+      orderItemsTable.grantReadWriteData(orderProcessorFunction);
+      inventoryTable.grantReadWriteData(orderProcessorFunction);
+      orderEventBus.grantPutEventsTo(orderProcessorFunction);
+      orderProcessorFunction.addToRolePolicy(new iam.PolicyStatement({
+        actions: ['ssm:GetParameter'],
+        resources: [this.formatArn({ service: 'ssm', resource: 'parameter', resourceName: failureRulesParameterName.substring(1) })],
+      }));
+      orderProcessorFunction.addToRolePolicy(sendNotificationsPolicy);
+      suppressionTable.grantReadData(orderProcessorFunction);
+
+      const laneQueue = laneQueues[lane].queue;
+      laneQueue.grantConsumeMessages(orderProcessorFunction);
+      orderProcessorFunction.addEventSource(new lambdaEventSources.SqsEventSource(laneQueue, {
+        batchSize: settings.batchSize,
+        maxConcurrency: settings.maxConcurrency,
+        reportBatchItemFailures: true, // Only retry the messages that failed rather than the entire batch
+      }));
+
+      return orderProcessorFunction;
+    };
+
+    const orderProcessorFunction = createOrderProcessor(Lane.STANDARD, 'orderProcessorFunction');
+    const expressOrderProcessorFunction = createOrderProcessor(Lane.EXPRESS, 'expressOrderProcessorFunction');
 
     // DLQ Processor will mark items as failed that have failed processing after maximum retries
     const dlqProcessorFunction = new NodejsFunction(this, 'dlqProcessorFunction', {
@@ -111,24 +585,247 @@ export class SqsStack extends cdk.Stack {
       environment: {
         ORDERS_TABLE_NAME: ordersTable.tableName,
         ORDER_ITEMS_TABLE_NAME: orderItemsTable.tableName,
+        INVENTORY_TABLE_NAME: inventoryTable.tableName,
+        OPS_EMAIL: opsEmail,
+        ...notificationEnvironment,
+        ...paymentEnvironment,
+        ...observabilityEnvironment,
+        ...eventBusEnvironment,
       },
       timeout: cdk.Duration.seconds(30),
+      tracing: lambda.Tracing.ACTIVE,
     });
     ordersTable.grantReadWriteData(dlqProcessorFunction);
     orderItemsTable.grantReadWriteData(dlqProcessorFunction);
+    inventoryTable.grantReadWriteData(dlqProcessorFunction);
+    orderEventBus.grantPutEventsTo(dlqProcessorFunction);
+    dlqProcessorFunction.addToRolePolicy(sendNotificationsPolicy);
+    suppressionTable.grantReadData(dlqProcessorFunction);
 
-    // Grant SQS permissions to Lambda functions
-    queue.grantConsumeMessages(orderProcessorFunction);
-    dlq.grantConsumeMessages(dlqProcessorFunction);
+    // RedriveManager inspects the DLQs and replays FAILED items back to the FIFO queue of their lane
+    const redriveManagerFunction = new NodejsFunction(this, 'redriveManagerFunction', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'functions/RedriveManager/index.ts',
+      environment: {
+        ORDERS_TABLE_NAME: ordersTable.tableName,
+        ORDER_ITEMS_TABLE_NAME: orderItemsTable.tableName,
+        OUTBOX_TABLE_NAME: outboxTable.tableName,
+        ...laneDlqEnvironment,
+      },
+      timeout: cdk.Duration.seconds(60),
+    });
+    ordersTable.grantReadWriteData(redriveManagerFunction);
+    orderItemsTable.grantReadWriteData(redriveManagerFunction);
+    outboxTable.grantReadWriteData(redriveManagerFunction);
 
-    // Add SQS event sources to Lambda functions
-    orderProcessorFunction.addEventSource(new lambdaEventSources.SqsEventSource(queue, {
-      batchSize: 1, // Process one message at a time
-    }));
+    // The DLQProcessor handles the failed items of both lanes, the RedriveManager inspects and purges both DLQs
+    for (const { dlq: laneDlq } of Object.values(laneQueues)) {
+      laneDlq.grantConsumeMessages(redriveManagerFunction);
+      laneDlq.grantPurge(redriveManagerFunction);
+      laneDlq.grantConsumeMessages(dlqProcessorFunction);
+      dlqProcessorFunction.addEventSource(new lambdaEventSources.SqsEventSource(laneDlq, {
+        batchSize: 10, // Process up to 10 messages at once
+        reportBatchItemFailures: true, // Leave only the messages that failed on the DLQ
+      }));
+    }
 
-    dlqProcessorFunction.addEventSource(new lambdaEventSources.SqsEventSource(dlq, {
-      batchSize: 10, // Process up to 10 messages at once
-    }));
+    // OrderApi serves the read, cancel and suppression list routes of the HTTP API
+    const orderApiFunction = new NodejsFunction(this, 'orderApiFunction', {
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handler',
+      entry: 'functions/OrderApi/index.ts',
+      environment: {
+        ORDERS_TABLE_NAME: ordersTable.tableName,
+        ORDER_ITEMS_TABLE_NAME: orderItemsTable.tableName,
+        INVENTORY_TABLE_NAME: inventoryTable.tableName,
+        COMPENSATION_QUEUE_URL: compensationQueue.queueUrl,
+        SUPPRESSION_TABLE_NAME: suppressionTable.tableName,
+        ...paymentEnvironment,
+        ...eventBusEnvironment,
+      },
+      timeout: cdk.Duration.seconds(30),
+    });
+    ordersTable.grantReadWriteData(orderApiFunction);
+    suppressionTable.grantReadWriteData(orderApiFunction);
+    orderItemsTable.grantReadWriteData(orderApiFunction);
+    inventoryTable.grantReadWriteData(orderApiFunction);
+    compensationQueue.grantSendMessages(orderApiFunction);
+    orderEventBus.grantPutEventsTo(orderApiFunction);
+
+    // REST API in front of the order functions
+    const api = new apigateway.RestApi(this, 'OrdersApi', {
+      restApiName: prefixed('orders-api'),
+      description: 'Submit, query and cancel orders',
+      deployOptions: {
+        stageName: props.apiStageName ?? 'dev',
+        tracingEnabled: true,
+      },
+    });
+    const orderManagerIntegration = new apigateway.LambdaIntegration(orderManagerFunction);
+    const orderApiIntegration = new apigateway.LambdaIntegration(orderApiFunction);
+
+    // POST /orders
+    const ordersResource = api.root.addResource('orders');
+    ordersResource.addMethod('POST', orderManagerIntegration);
+
+    // GET and DELETE /orders/{orderId}
+    const orderResource = ordersResource.addResource('{orderId}');
+    orderResource.addMethod('GET', orderApiIntegration);
+    orderResource.addMethod('DELETE', orderApiIntegration);
+
+    // GET /users/{userId}/orders uses the userId-index on the OrdersTable
+    api.root.addResource('users').addResource('{userId}').addResource('orders')
+      .addMethod('GET', orderApiIntegration);
+
+    // GET /items?status=FAILED uses the status-index on the OrderItemsTable
+    api.root.addResource('items').addMethod('GET', orderApiIntegration);
+
+    // GET /suppressions lists the suppressed addresses, DELETE /suppressions/{email} removes one
+    const suppressionsResource = api.root.addResource('suppressions');
+    suppressionsResource.addMethod('GET', orderApiIntegration);
+    suppressionsResource.addResource('{email}').addMethod('DELETE', orderApiIntegration);
+
+    // Alarms are sent to the ops email address through this topic
+    const alarmTopic = new sns.Topic(this, 'AlarmTopic', {
+      topicName: prefixed('sqs-pipeline-alarms'),
+      displayName: 'Order Pipeline Alarms',
+      masterKey: encryptionKey,
+    });
+    alarmTopic.addSubscription(new snsSubscriptions.EmailSubscription(opsEmail));
+    encryptionKey?.grant(new iam.ServicePrincipal('cloudwatch.amazonaws.com'), 'kms:GenerateDataKey*', 'kms:Decrypt');
+    const alarmAction = new cloudwatchActions.SnsAction(alarmTopic);
+
+    // Every lane alarms on its own DLQ and queue, the standard lane keeps the ids and names of the original alarms
+    const createLaneAlarms = (lane: Lane, ids: { dlqDepth: string; oldestMessageAge: string }, names: { dlq: string; queue: string }) => {
+      const dlqDepthAlarm = new cloudwatch.Alarm(this, ids.dlqDepth, {
+        alarmName: prefixed(`${names.dlq}-depth`),
+        alarmDescription: `Items have failed after the maximum number of retries and are waiting on the ${lane} DLQ`,
+        metric: laneQueues[lane].dlq.metricApproximateNumberOfMessagesVisible({ period: cdk.Duration.minutes(1), statistic: cloudwatch.Stats.MAXIMUM }),
+        threshold: props.alarms?.dlqDepth ?? 1,
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        evaluationPeriods: 1,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      });
+
+      const oldestMessageAgeAlarm = new cloudwatch.Alarm(this, ids.oldestMessageAge, {
+        alarmName: prefixed(`${names.queue}-oldest-message-age`),
+        alarmDescription: `Messages are waiting on the ${lane} queue for longer than expected`,
+        metric: laneQueues[lane].queue.metricApproximateAgeOfOldestMessage({ period: cdk.Duration.minutes(1), statistic: cloudwatch.Stats.MAXIMUM }),
+        threshold: (props.alarms?.oldestMessageAge ?? cdk.Duration.minutes(5)).toSeconds(),
+        comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        evaluationPeriods: 3,
+        treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+      });
+
+      return [dlqDepthAlarm, oldestMessageAgeAlarm];
+    };
+
+    const alarms = [
+      ...createLaneAlarms(Lane.STANDARD,
+        { dlqDepth: 'DlqDepthAlarm', oldestMessageAge: 'OldestMessageAgeAlarm' },
+        { dlq: 'sqs-dlq', queue: 'sqs-main-queue' }),
+      ...createLaneAlarms(Lane.EXPRESS,
+        { dlqDepth: 'ExpressDlqDepthAlarm', oldestMessageAge: 'ExpressOldestMessageAgeAlarm' },
+        { dlq: 'sqs-express-dlq', queue: 'sqs-express-queue' }),
+    ];
+    for (const alarm of alarms) {
+      alarm.addAlarmAction(alarmAction);
+      alarm.addOkAction(alarmAction);
+    }
+
+    // The metrics published by the functions, see functions/shared/observability.ts
+    // The OrderProcessor metrics also have a lane dimension, so they are graphed per lane
+    const pipelineMetric = (metricName: string, service: string, label: string, statistic: string = cloudwatch.Stats.SUM) =>
+      new cloudwatch.Metric({
+        namespace: metricsNamespace,
+        metricName,
+        dimensionsMap: { service },
+        statistic,
+        label,
+        period: cdk.Duration.minutes(5),
+      });
+    const laneMetrics = (metricName: string, label: string, statistic: string = cloudwatch.Stats.SUM) =>
+      Object.values(Lane).map(lane => new cloudwatch.Metric({
+        namespace: metricsNamespace,
+        metricName,
+        dimensionsMap: { service: MetricService.ORDER_PROCESSOR, lane },
+        statistic,
+        label: `${label} (${lane})`,
+        period: cdk.Duration.minutes(5),
+      }));
+
+    const dashboard = new cloudwatch.Dashboard(this, 'OrderPipelineDashboard', {
+      dashboardName: prefixed('order-pipeline'),
+    });
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: 'Orders accepted',
+        left: [pipelineMetric(MetricName.ORDERS_ACCEPTED, MetricService.ORDER_MANAGER, 'Accepted')],
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Item outcomes',
+        left: [
+          ...laneMetrics(MetricName.ITEMS_PROCESSED, 'Processed'),
+          ...laneMetrics(MetricName.ITEMS_OUT_OF_STOCK, 'Out of stock'),
+          pipelineMetric(MetricName.ITEMS_FAILED, MetricService.DLQ_PROCESSOR, 'Failed'),
+        ],
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Item processing latency (ms)',
+        left: [cloudwatch.Stats.p(50), cloudwatch.Stats.p(99)].flatMap(statistic =>
+          laneMetrics(MetricName.ITEM_PROCESSING_LATENCY, statistic, statistic)),
+      }),
+    );
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: 'Retries and DLQ arrivals',
+        left: [
+          ...laneMetrics(MetricName.ITEM_RETRIES, 'Retries'),
+          pipelineMetric(MetricName.DLQ_ARRIVALS, MetricService.DLQ_PROCESSOR, 'DLQ arrivals'),
+        ],
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Queue depth',
+        left: [
+          queue.metricApproximateNumberOfMessagesVisible({ label: 'Main queue', statistic: cloudwatch.Stats.MAXIMUM }),
+          queue.metricApproximateNumberOfMessagesNotVisible({ label: 'Main queue in flight', statistic: cloudwatch.Stats.MAXIMUM }),
+          expressQueue.metricApproximateNumberOfMessagesVisible({ label: 'Express queue', statistic: cloudwatch.Stats.MAXIMUM }),
+          expressQueue.metricApproximateNumberOfMessagesNotVisible({ label: 'Express queue in flight', statistic: cloudwatch.Stats.MAXIMUM }),
+          dlq.metricApproximateNumberOfMessagesVisible({ label: 'DLQ', statistic: cloudwatch.Stats.MAXIMUM }),
+          expressDlq.metricApproximateNumberOfMessagesVisible({ label: 'Express DLQ', statistic: cloudwatch.Stats.MAXIMUM }),
+        ],
+      }),
+      new cloudwatch.GraphWidget({
+        title: 'Oldest message age (s)',
+        left: [
+          queue.metricApproximateAgeOfOldestMessage({ label: 'Main queue', statistic: cloudwatch.Stats.MAXIMUM }),
+          expressQueue.metricApproximateAgeOfOldestMessage({ label: 'Express queue', statistic: cloudwatch.Stats.MAXIMUM }),
+        ],
+      }),
+    );
+    dashboard.addWidgets(
+      new cloudwatch.GraphWidget({
+        title: 'Function errors',
+        left: [
+          orderManagerFunction.metricErrors({ label: 'OrderManager' }),
+          orderProcessorFunction.metricErrors({ label: 'OrderProcessor' }),
+          expressOrderProcessorFunction.metricErrors({ label: 'Express OrderProcessor' }),
+          dlqProcessorFunction.metricErrors({ label: 'DLQProcessor' }),
+          outboxRelayFunction.metricErrors({ label: 'OutboxRelay' }),
+          orderSchedulerFunction.metricErrors({ label: 'OrderScheduler' }),
+        ],
+      }),
+      new cloudwatch.AlarmStatusWidget({
+        title: 'Alarms',
+        alarms,
+      }),
+    );
+
+    new cdk.CfnOutput(this, 'OrdersApiUrl', {
+      value: api.url,
+      description: 'Orders REST API URL',
+    });
 
     new cdk.CfnOutput(this, 'MainQueueUrl', {
       value: queue.queueUrl,
@@ -139,5 +836,55 @@ export class SqsStack extends cdk.Stack {
       value: dlq.queueUrl,
       description: 'Dead Letter Queue URL',
     });
+
+    new cdk.CfnOutput(this, 'ExpressQueueUrl', {
+      value: expressQueue.queueUrl,
+      description: 'Express lane FIFO Queue URL',
+    });
+
+    new cdk.CfnOutput(this, 'ExpressDLQUrl', {
+      value: expressDlq.queueUrl,
+      description: 'Express lane Dead Letter Queue URL',
+    });
+
+    new cdk.CfnOutput(this, 'ScheduledQueueUrl', {
+      value: scheduledQueue.queueUrl,
+      description: 'Queue of the delayed release messages of scheduled orders',
+    });
+
+    new cdk.CfnOutput(this, 'CompensationQueueUrl', {
+      value: compensationQueue.queueUrl,
+      description: 'Compensation Queue URL',
+    });
+
+    new cdk.CfnOutput(this, 'OrderEventBusName', {
+      value: orderEventBus.eventBusName,
+      description: 'EventBridge bus receiving the order domain events',
+    });
+
+    new cdk.CfnOutput(this, 'OrderOutcomesQueueUrl', {
+      value: orderOutcomesQueue.queueUrl,
+      description: 'Example subscriber queue of the OrderCompleted and OrderCancelled events',
+    });
+
+    new cdk.CfnOutput(this, 'OutOfStockQueueUrl', {
+      value: outOfStockQueue.queueUrl,
+      description: 'Example subscriber queue of the ItemFailed events of items that ran out of stock',
+    });
+
+    new cdk.CfnOutput(this, 'SesEventsTopicArn', {
+      value: sesEventsTopic.topicArn,
+      description: 'SNS topic receiving SES bounce, complaint and reject events',
+    });
+
+    new cdk.CfnOutput(this, 'AlarmTopicArn', {
+      value: alarmTopic.topicArn,
+      description: 'SNS topic receiving the DLQ depth and oldest message age alarms of both lanes',
+    });
+
+    new cdk.CfnOutput(this, 'DashboardName', {
+      value: dashboard.dashboardName,
+      description: 'CloudWatch dashboard of the order pipeline',
+    });
   }
 }
@@ -0,0 +1,57 @@
+import type { Context, SQSRecord } from 'aws-lambda';
+import { ItemStatus } from '../functions/shared/orderStatus';
+
+export const sampleOrder = {
+    orderId: 'ORD-TEST-001',
+    userId: 'USER-TEST',
+    orderItems: [
+        { itemId: 'ITEM-101', name: 'Caffè Latte', quantity: 2, price: 4.5 },
+        { itemId: 'ITEM-452', name: 'Espresso', quantity: 3, price: 2.75 }
+    ]
+};
+
+export const orderTimestamp = '2025-09-12T10:00:00.000Z';
+
+export const buildItemMessage = (itemId: string) => ({
+    orderId: sampleOrder.orderId,
+    userId: sampleOrder.userId,
+    itemId,
+    itemDetail: 'Caffè Latte',
+    quantity: 2,
+    price: 4.5,
+    itemStatus: ItemStatus.PENDING,
+    timestamp: orderTimestamp
+});
+
+export const buildContext = (): Context => ({
+    callbackWaitsForEmptyEventLoop: false,
+    functionName: 'test-function',
+    functionVersion: '$LATEST',
+    invokedFunctionArn: 'arn:aws:lambda:us-east-1:000000000000:function:test-function',
+    memoryLimitInMB: '128',
+    awsRequestId: 'test-request',
+    logGroupName: '/aws/lambda/test-function',
+    logStreamName: 'test-stream',
+    getRemainingTimeInMillis: () => 30000,
+    done: () => undefined,
+    fail: () => undefined,
+    succeed: () => undefined
+});
+
+export const buildSqsRecord = (body: unknown, receiveCount = 1): SQSRecord => ({
+    messageId: `message-${Math.random().toString(36).slice(2)}`,
+    receiptHandle: 'receipt-handle',
+    body: JSON.stringify(body),
+    attributes: {
+        ApproximateReceiveCount: String(receiveCount),
+        SentTimestamp: String(Date.now()),
+        SenderId: 'sender',
+        ApproximateFirstReceiveTimestamp: String(Date.now()),
+        MessageGroupId: sampleOrder.orderId
+    },
+    messageAttributes: {},
+    md5OfBody: '',
+    eventSource: 'aws:sqs',
+    eventSourceARN: 'arn:aws:sqs:us-east-1:000000000000:sqs-main-queue.fifo',
+    awsRegion: 'us-east-1'
+});
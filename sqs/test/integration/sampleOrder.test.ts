@@ -0,0 +1,98 @@
+import { execSync } from 'child_process';
+import { readFileSync } from 'fs';
+import * as path from 'path';
+
+// Deploys SqsStack to LocalStack and runs the sample order through it.
+// Only runs with INTEGRATION=1 and a running LocalStack container (see `make test-integration`).
+const describeIntegration = process.env.INTEGRATION ? describe : describe.skip;
+
+const projectDir = path.join(__dirname, '..', '..');
+const outputsFile = path.join(projectDir, 'cdk.out', 'integration-outputs.json');
+
+const LOCALSTACK_ENDPOINT = process.env.LOCALSTACK_ENDPOINT ?? 'http://localhost:4566';
+const NOTIFICATION_SENDER = 'orders@localstack.cloud';
+
+const TERMINAL_ORDER_STATUSES = ['COMPLETED', 'PARTIALLY_FAILED', 'FAILED', 'CANCELLED'];
+// with the default failure rules ITEM-101 only fails its first attempt and ITEM-223 ends up on the DLQ
+const EXPECTED_ITEM_STATUSES = {
+    'ITEM-101': 'PROCESSED',
+    'ITEM-223': 'FAILED',
+    'ITEM-334': 'PROCESSED',
+    'ITEM-452': 'PROCESSED',
+    'ITEM-565': 'PROCESSED',
+    'ITEM-678': 'PROCESSED'
+};
+
+interface OrderResponse {
+    orderStatus: string;
+    items: { itemId: string; itemStatus: string }[];
+}
+
+interface SentEmail {
+    Source: string;
+    Template?: string;
+    TemplateData?: string;
+}
+
+const run = (command: string) => execSync(command, { cwd: projectDir, stdio: 'inherit' });
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describeIntegration('sample order on LocalStack', () => {
+    let apiUrl: string;
+
+    beforeAll(() => {
+        run('cdklocal bootstrap');
+        run(`cdklocal deploy --require-approval never --outputs-file ${outputsFile}`);
+        // reset the stock, so earlier runs can't leave the sample items out of stock
+        run('make seed-inventory');
+        // the built-in default rules are what the expected statuses are based on
+        try {
+            run('make clear-failure-rules');
+        } catch {
+            // there were no failure rules set
+        }
+
+        const outputs = JSON.parse(readFileSync(outputsFile, 'utf8'));
+        apiUrl = outputs.SqsStack.OrdersApiUrl.replace(/\/$/, '');
+    }, 10 * 60 * 1000);
+
+    it('ends with the expected PROCESSED and FAILED items and sends its notifications', async () => {
+        // a fresh order id per run, so idempotency doesn't return the response of an earlier run
+        const sampleOrder = JSON.parse(readFileSync(path.join(projectDir, 'sampleData', 'order.json'), 'utf8'));
+        const orderId = `${sampleOrder.orderId}-${Date.now()}`;
+
+        const submitted = await fetch(`${apiUrl}/orders`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...sampleOrder, orderId })
+        });
+        expect(submitted.status).toBe(200);
+
+        // the failing item is retried until it reaches the DLQ, which takes a few visibility timeouts
+        let order: OrderResponse | undefined;
+        const deadline = Date.now() + 8 * 60 * 1000;
+        while (Date.now() < deadline) {
+            const response = await fetch(`${apiUrl}/orders/${orderId}`);
+            if (response.status === 200) {
+                order = await response.json() as OrderResponse;
+                if (TERMINAL_ORDER_STATUSES.includes(order!.orderStatus)) {
+                    break;
+                }
+            }
+            await sleep(10 * 1000);
+        }
+
+        expect(order?.orderStatus).toBe('PARTIALLY_FAILED');
+        expect(Object.fromEntries(order!.items.map(item => [item.itemId, item.itemStatus]))).toEqual(EXPECTED_ITEM_STATUSES);
+
+        // LocalStack records the emails it was asked to send on its SES endpoint
+        const sent = await fetch(`${LOCALSTACK_ENDPOINT}/_aws/ses?email=${NOTIFICATION_SENDER}`);
+        const { messages } = await sent.json() as { messages: SentEmail[] };
+        const templates = messages
+            .filter(message => message.TemplateData && JSON.parse(message.TemplateData).orderId === orderId)
+            .map(message => message.Template)
+            .sort();
+        expect(templates).toEqual(['ItemFailed', 'OrderCompleted', 'OrderReceived']);
+    }, 10 * 60 * 1000);
+});
@@ -0,0 +1,27 @@
+// The functions read their table and queue names from the environment, as they do when deployed
+process.env.ORDERS_TABLE_NAME = 'OrdersTable';
+process.env.ORDER_ITEMS_TABLE_NAME = 'OrderItemsTable';
+process.env.OUTBOX_TABLE_NAME = 'OutboxTable';
+process.env.IDEMPOTENCY_TABLE_NAME = 'IdempotencyTable';
+process.env.SUPPRESSION_TABLE_NAME = 'SuppressionTable';
+process.env.INVENTORY_TABLE_NAME = 'InventoryTable';
+process.env.STANDARD_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/000000000000/sqs-main-queue.fifo';
+process.env.EXPRESS_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/000000000000/sqs-express-queue.fifo';
+process.env.SCHEDULED_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/000000000000/sqs-scheduled-queue';
+process.env.COMPENSATION_QUEUE_URL = 'https://sqs.us-east-1.amazonaws.com/000000000000/sqs-compensation-queue';
+process.env.ORDER_EVENT_BUS_NAME = 'order-events';
+process.env.AWS_REGION = 'us-east-1';
+process.env.NOTIFICATION_SENDER = 'orders@localstack.cloud';
+process.env.NOTIFICATION_CONFIGURATION_SET = 'sqs-order-notifications';
+process.env.ORDER_RECEIVED_TEMPLATE = 'OrderReceived';
+process.env.ORDER_COMPLETED_TEMPLATE = 'OrderCompleted';
+process.env.ITEM_FAILED_TEMPLATE = 'ItemFailed';
+process.env.OPS_EMAIL = 'ops@localstack.cloud';
+process.env.PAYMENT_PROVIDER = 'fake';
+process.env.FAKE_PAYMENT_DECLINE_ABOVE = '500';
+
+process.env.POWERTOOLS_METRICS_NAMESPACE = 'OrderPipeline';
+
+// keep the test output readable
+process.env.POWERTOOLS_LOG_LEVEL = 'SILENT';
+process.env.POWERTOOLS_METRICS_DISABLED = 'true';
@@ -0,0 +1,224 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SESClient, SendTemplatedEmailCommand } from '@aws-sdk/client-ses';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { handler, processFailedItem } from '../../functions/DLQProcessor';
+import { buildContext, buildItemMessage, buildSqsRecord, orderTimestamp } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const sesMock = mockClient(SESClient);
+const eventBridgeMock = mockClient(EventBridgeClient);
+
+const authorizedOrder = (orderStatus: string) => ({
+    orderId: 'ORD-TEST-001',
+    userId: 'USER-TEST',
+    timestamp: orderTimestamp,
+    orderStatus,
+    totalItems: 2,
+    processedItems: 1,
+    failedItems: 1,
+    totalValue: 17.25,
+    paymentStatus: 'AUTHORIZED',
+    paymentTransactions: [{ type: 'AUTHORIZATION', transactionId: 'fake_auth_1', amount: 17.25, createdAt: orderTimestamp }]
+});
+
+// stock releases are the transactions that touch the InventoryTable, item outcomes are the others
+const transactionsOn = (tableName: string, touches = true) => dynamoDBMock.commandCalls(TransactWriteCommand)
+    .filter(call => call.args[0].input.TransactItems!.some(action => action.Update?.TableName === tableName) === touches);
+
+const transactionCancelled = (reasons: Record<string, unknown>[]) => new TransactionCanceledException({
+    message: 'Transaction cancelled',
+    $metadata: {},
+    CancellationReasons: reasons
+});
+
+describe('DLQProcessor.processFailedItem', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(GetCommand, { TableName: 'SuppressionTable' }).resolves({});
+        sesMock.reset();
+        sesMock.on(SendTemplatedEmailCommand).resolves({ MessageId: 'message-id' });
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' })
+            .resolves({ Item: { orderStatus: 'PROCESSING', totalItems: 2, processedItems: 1, failedItems: 1 } });
+        dynamoDBMock.on(GetCommand, { TableName: 'OrderItemsTable' })
+            .resolves({ Item: { itemStatus: 'FAILED', reservationStatus: 'RESERVED', reservedSku: 'SKU-223', quantity: 2 } });
+    });
+
+    it('marks the item as FAILED and rolls the failure up into the order', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+
+        await processFailedItem(buildItemMessage('ITEM-223'));
+
+        const [itemUpdate, orderUpdate] = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!
+            .map(action => action.Update!);
+        expect(itemUpdate.ExpressionAttributeValues).toMatchObject({ ':status': 'FAILED' });
+        expect(orderUpdate.UpdateExpression).toContain('ADD failedItems :one');
+
+        const orderUpdates = dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrdersTable' });
+        expect(orderUpdates).toHaveLength(1);
+        expect(orderUpdates[0].args[0].input.ExpressionAttributeValues).toMatchObject({ ':status': 'PARTIALLY_FAILED' });
+    });
+
+    it('publishes the ItemFailed event and the OrderCompleted event of the order it finishes', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).resolves({
+            Attributes: { orderId: 'ORD-TEST-001', userId: 'USER-TEST', orderStatus: 'PARTIALLY_FAILED', totalItems: 2, processedItems: 1, failedItems: 1, totalValue: 17.25 }
+        });
+
+        await processFailedItem(buildItemMessage('ITEM-223'), 'checkout-1234');
+
+        const entries = eventBridgeMock.commandCalls(PutEventsCommand).flatMap(call => call.args[0].input.Entries!);
+        expect(entries.map(entry => entry.DetailType)).toEqual(['ItemFailed', 'OrderCompleted']);
+        expect(JSON.parse(entries[0].Detail!)).toMatchObject({
+            metadata: { version: 1, correlationId: 'checkout-1234' },
+            data: { orderId: 'ORD-TEST-001', itemId: 'ITEM-223', itemStatus: 'FAILED' }
+        });
+        expect(JSON.parse(entries[1].Detail!).data).toMatchObject({ orderStatus: 'PARTIALLY_FAILED', failedItems: 1 });
+    });
+
+    it('emails the operations team about the failed item', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+
+        await processFailedItem(buildItemMessage('ITEM-223'));
+
+        const emails = sesMock.commandCalls(SendTemplatedEmailCommand).map(call => call.args[0].input);
+        expect(emails).toEqual([expect.objectContaining({ Destination: { ToAddresses: ['ops@localstack.cloud'] }, Template: 'ItemFailed' })]);
+        expect(JSON.parse(emails[0].TemplateData!)).toMatchObject({ orderId: 'ORD-TEST-001', itemId: 'ITEM-223', price: '4.50' });
+    });
+
+    it('gives back the stock the FAILED item reserved, under the SKU that was reserved', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+
+        // the message may carry a different SKU than the one that was reserved, for example after a redrive
+        await processFailedItem({ ...buildItemMessage('ITEM-223'), sku: 'SKU-OTHER' });
+
+        const [release] = transactionsOn('InventoryTable');
+        const [itemUpdate, inventoryUpdate] = release.args[0].input.TransactItems!.map(action => action.Update!);
+        expect(itemUpdate).toMatchObject({
+            Key: { orderId: 'ORD-TEST-001', itemId: 'ITEM-223' },
+            ConditionExpression: 'reservationStatus = :reserved AND itemStatus = :itemStatus',
+            ExpressionAttributeValues: expect.objectContaining({ ':released': 'RELEASED', ':itemStatus': 'FAILED' })
+        });
+        expect(inventoryUpdate).toMatchObject({ Key: { sku: 'SKU-223' }, ExpressionAttributeValues: { ':quantity': 2 } });
+    });
+
+    it('releases nothing when the FAILED item holds no reservation', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        dynamoDBMock.on(GetCommand, { TableName: 'OrderItemsTable' })
+            .resolves({ Item: { itemStatus: 'FAILED', reservationStatus: 'RELEASED', reservedSku: 'SKU-223', quantity: 2 } });
+
+        await processFailedItem(buildItemMessage('ITEM-223'));
+
+        expect(transactionsOn('InventoryTable')).toHaveLength(0);
+    });
+
+    it('leaves an item that already reached a terminal status alone', async () => {
+        dynamoDBMock.on(TransactWriteCommand).rejects(transactionCancelled([{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }]));
+
+        await processFailedItem(buildItemMessage('ITEM-223'));
+
+        expect(dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrderItemsTable' })).toHaveLength(0);
+        expect(sesMock.commandCalls(SendTemplatedEmailCommand)).toHaveLength(0);
+    });
+
+    it('cancels the item rather than failing it when the order was cancelled', async () => {
+        dynamoDBMock.on(TransactWriteCommand).rejects(transactionCancelled([
+            { Code: 'None' },
+            { Code: 'ConditionalCheckFailed', Item: { orderStatus: { S: 'CANCELLED' } } }
+        ]));
+
+        await processFailedItem(buildItemMessage('ITEM-223'));
+
+        const itemUpdates = dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrderItemsTable' });
+        expect(itemUpdates).toHaveLength(1);
+        expect(itemUpdates[0].args[0].input.ExpressionAttributeValues).toMatchObject({ ':cancelled': 'CANCELLED' });
+        // the cancellation releases the stock of the whole order
+        expect(transactionsOn('InventoryTable')).toHaveLength(0);
+    });
+
+    it('rethrows when the failure cannot be recorded, so the message is retried', async () => {
+        dynamoDBMock.on(TransactWriteCommand).rejects(new Error('Throughput exceeded'));
+
+        await expect(processFailedItem(buildItemMessage('ITEM-223'))).rejects.toThrow('Throughput exceeded');
+        expect(sesMock.commandCalls(SendTemplatedEmailCommand)).toHaveLength(0);
+    });
+
+    it('rethrows when the order status cannot be refreshed', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' }).rejects(new Error('Throughput exceeded'));
+
+        await expect(processFailedItem(buildItemMessage('ITEM-223'))).rejects.toThrow('Throughput exceeded');
+    });
+
+    it('rethrows when the payment of the order it finishes cannot be settled, without reporting the order as finished', async () => {
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).resolves({ Attributes: authorizedOrder('PARTIALLY_FAILED') });
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).rejects(new Error('Throughput exceeded'));
+
+        await expect(processFailedItem(buildItemMessage('ITEM-223'))).rejects.toThrow('Throughput exceeded');
+
+        const entries = eventBridgeMock.commandCalls(PutEventsCommand).flatMap(call => call.args[0].input.Entries!);
+        expect(entries.map(entry => entry.DetailType)).toEqual(['ItemFailed']);
+    });
+
+    it('settles an order that a previous attempt finished but failed to settle', async () => {
+        dynamoDBMock.on(TransactWriteCommand).rejects(transactionCancelled([{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }]));
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' }).resolves({ Item: authorizedOrder('PARTIALLY_FAILED') });
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({
+            Items: [
+                { itemId: 'ITEM-101', itemStatus: 'PROCESSED', quantity: 2, price: 4.5 },
+                { itemId: 'ITEM-223', itemStatus: 'FAILED', quantity: 3, price: 2.75 }
+            ]
+        });
+
+        await processFailedItem(buildItemMessage('ITEM-223'));
+
+        const orderUpdates = dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrdersTable' });
+        expect(orderUpdates).toHaveLength(1);
+        expect(orderUpdates[0].args[0].input.ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'CAPTURED', ':capturedAmount': 9 });
+    });
+});
+
+describe('DLQProcessor.handler', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(GetCommand, { TableName: 'SuppressionTable' }).resolves({});
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' })
+            .resolves({ Item: { orderStatus: 'PROCESSING', totalItems: 3, processedItems: 0, failedItems: 1 } });
+        dynamoDBMock.on(GetCommand, { TableName: 'OrderItemsTable' }).resolves({});
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        sesMock.reset();
+        sesMock.on(SendTemplatedEmailCommand).resolves({ MessageId: 'message-id' });
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+    });
+
+    it('reports the record that failed and the rest of its message group as batch item failures', async () => {
+        dynamoDBMock.on(TransactWriteCommand).callsFake(input => {
+            if (input.TransactItems[0].Update.Key.itemId === 'ITEM-452') {
+                throw new Error('Throughput exceeded');
+            }
+            return {};
+        });
+        const records = [buildSqsRecord(buildItemMessage('ITEM-223')), buildSqsRecord(buildItemMessage('ITEM-452')), buildSqsRecord(buildItemMessage('ITEM-678'))];
+        const otherOrder = buildSqsRecord({ ...buildItemMessage('ITEM-101'), orderId: 'ORD-TEST-002' });
+        otherOrder.attributes.MessageGroupId = 'ORD-TEST-002';
+
+        const response = await handler({ Records: [...records, otherOrder] }, buildContext());
+
+        expect(response.batchItemFailures).toEqual([{ itemIdentifier: records[1].messageId }, { itemIdentifier: records[2].messageId }]);
+        expect(transactionsOn('InventoryTable', false)).toHaveLength(3);
+    });
+
+    it('drops a message that cannot be parsed rather than retrying it', async () => {
+        const record = { ...buildSqsRecord({}), body: 'not json' };
+
+        const response = await handler({ Records: [record] }, buildContext());
+
+        expect(response.batchItemFailures).toEqual([]);
+    });
+});
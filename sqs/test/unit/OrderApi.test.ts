@@ -0,0 +1,191 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConditionalCheckFailedException, type AttributeValue } from '@aws-sdk/client-dynamodb';
+import { DeleteCommand, DynamoDBDocumentClient, QueryCommand, ScanCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import type { APIGatewayProxyEvent } from 'aws-lambda';
+import { handler } from '../../functions/OrderApi';
+import { buildContext, buildItemMessage, orderTimestamp, sampleOrder } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const sqsMock = mockClient(SQSClient);
+const eventBridgeMock = mockClient(EventBridgeClient);
+
+const order = { orderId: sampleOrder.orderId, userId: sampleOrder.userId, timestamp: orderTimestamp, orderStatus: 'PROCESSING' };
+
+const request = (
+    httpMethod: string,
+    resource: string,
+    pathParameters: Record<string, string> | null = null,
+    queryStringParameters: Record<string, string> | null = null
+) => handler({ httpMethod, resource, pathParameters, queryStringParameters } as APIGatewayProxyEvent, buildContext());
+
+const bodyOf = (response: { body: string }) => JSON.parse(response.body);
+const token = (key: Record<string, unknown>) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+const conditionFailed = (item?: Record<string, AttributeValue>) => new ConditionalCheckFailedException({
+    message: 'The conditional request failed',
+    $metadata: {},
+    Item: item
+});
+
+describe('OrderApi', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [order] });
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({ Items: [buildItemMessage('ITEM-101')] });
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        sqsMock.reset();
+        sqsMock.on(SendMessageCommand).resolves({ MessageId: 'message-id' });
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+    });
+
+    describe('GET /orders/{orderId}', () => {
+        it('returns the order along with its items', async () => {
+            const response = await request('GET', '/orders/{orderId}', { orderId: sampleOrder.orderId });
+
+            expect(response.statusCode).toBe(200);
+            expect(bodyOf(response)).toEqual({ ...order, items: [buildItemMessage('ITEM-101')] });
+        });
+
+        it('returns 404 for an order that does not exist', async () => {
+            dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [] });
+
+            const response = await request('GET', '/orders/{orderId}', { orderId: 'ORD-MISSING' });
+
+            expect(response.statusCode).toBe(404);
+            expect(bodyOf(response)).toEqual({ message: 'Order ORD-MISSING not found' });
+        });
+    });
+
+    describe('DELETE /orders/{orderId}', () => {
+        it('cancels the order', async () => {
+            const response = await request('DELETE', '/orders/{orderId}', { orderId: sampleOrder.orderId });
+
+            expect(response.statusCode).toBe(200);
+            expect(bodyOf(response)).toEqual({
+                message: `Order ${sampleOrder.orderId} cancelled`,
+                cancelledItems: ['ITEM-101'],
+                compensatedItems: [],
+                releasedItems: [],
+                paymentTransactions: []
+            });
+        });
+
+        it('returns 409 for an order that can no longer be cancelled', async () => {
+            dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).rejects(conditionFailed({ orderStatus: { S: 'COMPLETED' } }));
+
+            const response = await request('DELETE', '/orders/{orderId}', { orderId: sampleOrder.orderId });
+
+            expect(response.statusCode).toBe(409);
+            expect(bodyOf(response)).toEqual({ message: `Order ${sampleOrder.orderId} is COMPLETED and can no longer be cancelled` });
+        });
+
+        it('returns 404 for an order that does not exist', async () => {
+            dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [] });
+
+            const response = await request('DELETE', '/orders/{orderId}', { orderId: 'ORD-MISSING' });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+
+    describe('GET /users/{userId}/orders', () => {
+        it('lists the orders of the user newest first, a page at a time', async () => {
+            const lastKey = { orderId: sampleOrder.orderId, timestamp: orderTimestamp, userId: sampleOrder.userId };
+            dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable', IndexName: 'userId-index' }).resolves({ Items: [order], LastEvaluatedKey: lastKey });
+            const startKey = { orderId: 'ORD-TEST-000', timestamp: orderTimestamp, userId: sampleOrder.userId };
+
+            const response = await request('GET', '/users/{userId}/orders', { userId: sampleOrder.userId }, { limit: '5', nextToken: token(startKey) });
+
+            expect(response.statusCode).toBe(200);
+            expect(bodyOf(response)).toEqual({ items: [order], nextToken: token(lastKey) });
+            const query = dynamoDBMock.commandCalls(QueryCommand, { IndexName: 'userId-index' })[0].args[0].input;
+            expect(query).toMatchObject({
+                ExpressionAttributeNames: { '#key': 'userId' },
+                ExpressionAttributeValues: { ':value': sampleOrder.userId },
+                ScanIndexForward: false,
+                Limit: 5,
+                ExclusiveStartKey: startKey
+            });
+        });
+
+        it.each([
+            [{ limit: '0' }, 'limit must be an integer between 1 and 100'],
+            [{ limit: '101' }, 'limit must be an integer between 1 and 100'],
+            [{ nextToken: 'not-a-token' }, 'nextToken is not valid']
+        ])('rejects the query %j', async (query, message) => {
+            const response = await request('GET', '/users/{userId}/orders', { userId: sampleOrder.userId }, query);
+
+            expect(response.statusCode).toBe(400);
+            expect(bodyOf(response)).toEqual({ message });
+        });
+    });
+
+    describe('GET /items', () => {
+        it('lists the items with the given status', async () => {
+            dynamoDBMock.on(QueryCommand, { IndexName: 'status-index' }).resolves({ Items: [{ ...buildItemMessage('ITEM-101'), itemStatus: 'FAILED' }] });
+
+            const response = await request('GET', '/items', null, { status: 'FAILED' });
+
+            expect(response.statusCode).toBe(200);
+            expect(bodyOf(response).items).toHaveLength(1);
+            expect(dynamoDBMock.commandCalls(QueryCommand, { IndexName: 'status-index' })[0].args[0].input)
+                .toMatchObject({ TableName: 'OrderItemsTable', ExpressionAttributeValues: { ':value': 'FAILED' }, Limit: 20 });
+        });
+
+        it('rejects an unknown status', async () => {
+            const response = await request('GET', '/items', null, { status: 'LOST' });
+
+            expect(response.statusCode).toBe(400);
+            expect(bodyOf(response).message).toMatch(/^status must be one of /);
+        });
+    });
+
+    describe('suppressions', () => {
+        it('lists the suppressed addresses', async () => {
+            const suppressed = { email: 'bounce@example.com', reason: 'BOUNCE', suppressedAt: orderTimestamp, lastEventAt: orderTimestamp, eventCount: 1 };
+            dynamoDBMock.on(ScanCommand, { TableName: 'SuppressionTable' }).resolves({ Items: [suppressed] });
+
+            const response = await request('GET', '/suppressions');
+
+            expect(response.statusCode).toBe(200);
+            expect(bodyOf(response)).toEqual({ items: [suppressed] });
+        });
+
+        it('removes an address from the suppression list', async () => {
+            dynamoDBMock.on(DeleteCommand).resolves({});
+
+            const response = await request('DELETE', '/suppressions/{email}', { email: 'Bounce%40example.com' });
+
+            expect(response.statusCode).toBe(200);
+            expect(dynamoDBMock.commandCalls(DeleteCommand)[0].args[0].input.Key).toEqual({ email: 'bounce@example.com' });
+        });
+
+        it('returns 404 for an address that is not suppressed', async () => {
+            dynamoDBMock.on(DeleteCommand).rejects(conditionFailed());
+
+            const response = await request('DELETE', '/suppressions/{email}', { email: 'someone%40example.com' });
+
+            expect(response.statusCode).toBe(404);
+        });
+    });
+
+    it('returns 404 for a route it does not serve', async () => {
+        const response = await request('PUT', '/orders/{orderId}', { orderId: sampleOrder.orderId });
+
+        expect(response.statusCode).toBe(404);
+        expect(bodyOf(response)).toEqual({ message: 'Route PUT /orders/{orderId} not found' });
+    });
+
+    it('returns 500 without the details when a request fails', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).rejects(new Error('Throughput exceeded'));
+
+        const response = await request('GET', '/orders/{orderId}', { orderId: sampleOrder.orderId });
+
+        expect(response.statusCode).toBe(500);
+        expect(bodyOf(response)).toEqual({ message: 'Internal server error' });
+    });
+});
@@ -0,0 +1,302 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { SESClient, SendTemplatedEmailCommand } from '@aws-sdk/client-ses';
+import { handler } from '../../functions/OrderManager';
+import { FakePaymentProvider } from '../../functions/shared/payments';
+import { buildContext, sampleOrder } from '../helpers';
+
+// An in-memory stand-in for the DynamoDB persistence layer, so repeated payloads return the stored response
+jest.mock('@aws-lambda-powertools/idempotency', () => {
+    const records = new Map<string, unknown>();
+    return {
+        makeIdempotent: (fn: (event: unknown, ...rest: unknown[]) => Promise<unknown>) =>
+            async (event: unknown, ...rest: unknown[]) => {
+                const key = JSON.stringify(event);
+                if (!records.has(key)) {
+                    records.set(key, await fn(event, ...rest));
+                }
+                return records.get(key);
+            }
+    };
+});
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const sesMock = mockClient(SESClient);
+
+describe('OrderManager', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [] });
+        dynamoDBMock.on(GetCommand, { TableName: 'SuppressionTable' }).resolves({});
+        sesMock.reset();
+        sesMock.on(SendTemplatedEmailCommand).resolves({ MessageId: 'message-id' });
+    });
+
+    it('writes the order, its items and the outbox entry in one transaction', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-WRITE' };
+        const response = await handler(order, buildContext());
+
+        expect(response.statusCode).toBe(200);
+        expect(JSON.parse(response.body)).toEqual({
+            message: 'Orders processed successfully',
+            orderId: 'ORD-TEST-WRITE',
+            // direct invocations are correlated by their request id
+            correlationId: 'test-request',
+            lane: 'standard',
+            orderStatus: 'PENDING',
+            acceptedItems: ['ITEM-101', 'ITEM-452']
+        });
+
+        const transactions = dynamoDBMock.commandCalls(TransactWriteCommand);
+        expect(transactions).toHaveLength(1);
+
+        const puts = transactions[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts.map(put => put.TableName)).toEqual(['OrderItemsTable', 'OrderItemsTable', 'OrdersTable', 'OutboxTable']);
+        expect(puts[2].Item).toMatchObject({ orderStatus: 'PENDING', totalItems: 2, processedItems: 0, failedItems: 0, totalValue: 17.25 });
+        expect(puts[2].Item).toMatchObject({
+            paymentProvider: 'fake',
+            paymentStatus: 'AUTHORIZED',
+            paymentTransactions: [expect.objectContaining({ type: 'AUTHORIZATION', amount: 17.25, transactionId: expect.stringMatching(/^fake_auth_/) })]
+        });
+        expect(puts[3].Item!.messages.map((message: { deduplicationId: string }) => message.deduplicationId))
+            .toEqual(['ORD-TEST-WRITE#ITEM-101#0', 'ORD-TEST-WRITE#ITEM-452#0']);
+    });
+
+    it('writes the OrderPlaced event to the outbox entry, so it is published along with the items', async () => {
+        await handler({ ...sampleOrder, orderId: 'ORD-TEST-EVENT', priority: 'high' }, buildContext());
+
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts[3].Item!.events).toEqual([{
+            detailType: 'OrderPlaced',
+            detail: {
+                metadata: { eventId: expect.any(String), version: 1, occurredAt: expect.any(String), correlationId: 'test-request' },
+                data: {
+                    orderId: 'ORD-TEST-EVENT',
+                    userId: sampleOrder.userId,
+                    timestamp: puts[2].Item!.timestamp,
+                    orderStatus: 'PENDING',
+                    priority: 'high',
+                    lane: 'express',
+                    totalValue: 17.25,
+                    items: [
+                        // the sku defaults to the item id
+                        { itemId: 'ITEM-101', sku: 'ITEM-101', itemDetail: 'Caffè Latte', quantity: 2, price: 4.5 },
+                        { itemId: 'ITEM-452', sku: 'ITEM-452', itemDetail: 'Espresso', quantity: 3, price: 2.75 }
+                    ]
+                }
+            }
+        }]);
+    });
+
+    it('emails the customer that the order was received', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-EMAIL', customerEmail: 'customer@example.com' };
+        await handler(order, buildContext());
+
+        const emails = sesMock.commandCalls(SendTemplatedEmailCommand);
+        expect(emails).toHaveLength(1);
+        expect(emails[0].args[0].input).toMatchObject({
+            Destination: { ToAddresses: ['customer@example.com'] },
+            Template: 'OrderReceived',
+            ConfigurationSetName: 'sqs-order-notifications'
+        });
+        expect(JSON.parse(emails[0].args[0].input.TemplateData!)).toMatchObject({ orderId: 'ORD-TEST-EMAIL', itemCount: 2, totalValue: '17.25' });
+
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts[2].Item).toMatchObject({ customerEmail: 'customer@example.com' });
+    });
+
+    it('does not email a suppressed customer', async () => {
+        dynamoDBMock.on(GetCommand, { TableName: 'SuppressionTable', Key: { email: 'bounce@simulator.amazonses.com' } })
+            .resolves({ Item: { email: 'bounce@simulator.amazonses.com', reason: 'BOUNCE' } });
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-SUPPRESSED', customerEmail: 'Bounce@simulator.amazonses.com' };
+        const response = await handler(order, buildContext());
+
+        expect(response.statusCode).toBe(200);
+        expect(sesMock.commandCalls(SendTemplatedEmailCommand)).toHaveLength(0);
+    });
+
+    it('still accepts the order when the email fails', async () => {
+        sesMock.on(SendTemplatedEmailCommand).rejects(new Error('Email address is not verified'));
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-EMAIL-FAILURE', customerEmail: 'customer@example.com' };
+        const response = await handler(order, buildContext());
+
+        expect(response.statusCode).toBe(200);
+    });
+
+    it('only stores a duplicate submission once', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-DUPLICATE' };
+        const first = await handler(order, buildContext());
+        const second = await handler(order, buildContext());
+
+        expect(second).toEqual(first);
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(1);
+    });
+
+    it('never overwrites an order, its items or its outbox entry', async () => {
+        await handler({ ...sampleOrder, orderId: 'ORD-TEST-CONDITIONS' }, buildContext());
+
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts.map(put => put.ConditionExpression)).toEqual([
+            'attribute_not_exists(itemId)',
+            'attribute_not_exists(itemId)',
+            'attribute_not_exists(orderId)',
+            'attribute_not_exists(outboxId)'
+        ]);
+        expect(puts[3].Item!.outboxId).toBe('ORD-TEST-CONDITIONS#submit');
+    });
+
+    it('returns 409 without authorizing the payment when the order already exists', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [{ orderId: 'ORD-TEST-EXISTING', orderStatus: 'COMPLETED' }] });
+        const authorize = jest.spyOn(FakePaymentProvider.prototype, 'authorize');
+
+        const response = await handler({ ...sampleOrder, orderId: 'ORD-TEST-EXISTING' }, buildContext());
+
+        expect(response.statusCode).toBe(409);
+        expect(JSON.parse(response.body)).toEqual({ message: 'Order already exists', orderId: 'ORD-TEST-EXISTING' });
+        expect(authorize).not.toHaveBeenCalled();
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+        authorize.mockRestore();
+    });
+
+    it('returns 409 and voids the authorization when the order was stored while it was being submitted', async () => {
+        dynamoDBMock.on(TransactWriteCommand).rejects(new TransactionCanceledException({
+            message: 'Transaction cancelled',
+            $metadata: {},
+            CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }, { Code: 'ConditionalCheckFailed' }, { Code: 'ConditionalCheckFailed' }]
+        }));
+        const voidPayment = jest.spyOn(FakePaymentProvider.prototype, 'void');
+
+        const response = await handler({ ...sampleOrder, orderId: 'ORD-TEST-RACE' }, buildContext());
+
+        expect(response.statusCode).toBe(409);
+        expect(JSON.parse(response.body)).toEqual({ message: 'Order already exists', orderId: 'ORD-TEST-RACE' });
+        expect(voidPayment).toHaveBeenCalledWith(expect.stringMatching(/^fake_auth_/), expect.any(Number), 'ORD-TEST-RACE:void');
+        voidPayment.mockRestore();
+    });
+
+    it('returns 402 without storing the order when the payment is declined', async () => {
+        // the fake provider declines anything over 500
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-DECLINED', orderItems: [{ itemId: 'ITEM-101', name: 'Caffè Latte', quantity: 200, price: 4.5 }] };
+        const response = await handler(order, buildContext());
+
+        expect(response.statusCode).toBe(402);
+        expect(JSON.parse(response.body)).toMatchObject({ message: 'Payment declined', orderId: 'ORD-TEST-DECLINED' });
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('routes high priority orders to the express lane', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-EXPRESS', priority: 'high' };
+        const response = await handler(order, buildContext());
+
+        expect(JSON.parse(response.body)).toMatchObject({ lane: 'express' });
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts[0].Item).toMatchObject({ lane: 'express' });
+        expect(puts[2].Item).toMatchObject({ priority: 'high', lane: 'express' });
+        expect(puts[3].Item!.messages.map((message: { lane: string }) => message.lane)).toEqual(['express', 'express']);
+    });
+
+    it('routes orders without a priority to the standard lane', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-STANDARD' };
+        await handler(order, buildContext());
+
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts[2].Item).toMatchObject({ priority: 'normal', lane: 'standard' });
+        expect(puts[3].Item!.messages.map((message: { lane: string }) => message.lane)).toEqual(['standard', 'standard']);
+    });
+
+    it('rejects an unknown priority', async () => {
+        const response = await handler({ ...sampleOrder, orderId: 'ORD-TEST-PRIORITY', priority: 'urgent' }, buildContext());
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).errors).toEqual([{ field: 'priority', message: 'must be one of high, normal, low' }]);
+    });
+
+    it('holds an order due within 15 minutes as SCHEDULED and relays a delayed release instead of its items', async () => {
+        const scheduledFor = new Date(Date.now() + 10 * 60 * 1000).toISOString();
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-SCHEDULED-SOON', scheduledFor };
+        const response = await handler(order, buildContext());
+
+        expect(JSON.parse(response.body)).toMatchObject({ orderStatus: 'SCHEDULED', scheduledFor, acceptedItems: ['ITEM-101', 'ITEM-452'] });
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts[2].Item).toMatchObject({ orderStatus: 'SCHEDULED', scheduledFor, scheduleStatus: 'SCHEDULED' });
+        expect(puts[3].Item).toMatchObject({
+            messages: [],
+            release: { orderId: 'ORD-TEST-SCHEDULED-SOON', timestamp: puts[2].Item!.timestamp, scheduledFor }
+        });
+    });
+
+    it('leaves an order due later to the OrderScheduler with only its OrderPlaced event in the outbox', async () => {
+        const scheduledFor = new Date(Date.now() + 2 * 60 * 60 * 1000).toISOString();
+        await handler({ ...sampleOrder, orderId: 'ORD-TEST-SCHEDULED-LATER', scheduledFor }, buildContext());
+
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts.map(put => put.TableName)).toEqual(['OrderItemsTable', 'OrderItemsTable', 'OrdersTable', 'OutboxTable']);
+        expect(puts[2].Item).toMatchObject({ orderStatus: 'SCHEDULED', scheduleStatus: 'SCHEDULED' });
+        expect(puts[3].Item).not.toHaveProperty('release');
+        expect(puts[3].Item).toMatchObject({ messages: [], events: [{ detailType: 'OrderPlaced', detail: { data: { orderStatus: 'SCHEDULED', scheduledFor } } }] });
+    });
+
+    it('processes an order scheduled for a time that has passed straight away', async () => {
+        const response = await handler({ ...sampleOrder, orderId: 'ORD-TEST-SCHEDULED-PAST', scheduledFor: '2025-09-12T10:00:00Z' }, buildContext());
+
+        expect(JSON.parse(response.body)).toMatchObject({ orderStatus: 'PENDING', acceptedItems: ['ITEM-101', 'ITEM-452'] });
+    });
+
+    it('rejects a scheduledFor without a time zone or too far ahead', async () => {
+        const farAhead = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000).toISOString();
+        const withoutZone = await handler({ ...sampleOrder, orderId: 'ORD-TEST-SCHEDULE-ZONE', scheduledFor: '2025-09-12T10:00:00' }, buildContext());
+        const tooLate = await handler({ ...sampleOrder, orderId: 'ORD-TEST-SCHEDULE-LATE', scheduledFor: farAhead }, buildContext());
+
+        expect(JSON.parse(withoutZone.body).errors).toEqual([expect.objectContaining({ field: 'scheduledFor' })]);
+        expect(JSON.parse(tooLate.body).errors).toEqual([{ field: 'scheduledFor', message: 'must be at most 30 days ahead' }]);
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('rejects an invalid order without storing it', async () => {
+        const response = await handler({ ...sampleOrder, orderItems: [] }, buildContext());
+
+        expect(response.statusCode).toBe(400);
+        expect(JSON.parse(response.body).errors).toEqual([expect.objectContaining({ field: 'orderItems' })]);
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('accepts orders from API Gateway', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-API' };
+        const response = await handler({ httpMethod: 'POST', body: JSON.stringify(order), isBase64Encoded: false }, buildContext());
+
+        expect(response.statusCode).toBe(200);
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(1);
+    });
+
+    it('carries the correlation id of the request to the order and its outbox messages', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-CORRELATION' };
+        const response = await handler({
+            httpMethod: 'POST',
+            body: JSON.stringify(order),
+            isBase64Encoded: false,
+            headers: { 'x-correlation-id': 'checkout-1234' },
+            requestContext: { requestId: 'api-request' }
+        }, buildContext());
+
+        expect(JSON.parse(response.body)).toMatchObject({ correlationId: 'checkout-1234' });
+        const puts = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!.map(action => action.Put!);
+        expect(puts[2].Item).toMatchObject({ correlationId: 'checkout-1234' });
+        expect(puts[3].Item!.messages.map((message: { correlationId: string }) => message.correlationId))
+            .toEqual(['checkout-1234', 'checkout-1234']);
+    });
+
+    it('falls back to the API Gateway request id when no correlation id is passed', async () => {
+        const order = { ...sampleOrder, orderId: 'ORD-TEST-REQUEST-ID' };
+        const response = await handler({
+            httpMethod: 'POST',
+            body: JSON.stringify(order),
+            isBase64Encoded: false,
+            headers: {},
+            requestContext: { requestId: 'api-request' }
+        }, buildContext());
+
+        expect(JSON.parse(response.body)).toMatchObject({ correlationId: 'api-request' });
+    });
+});
@@ -0,0 +1,306 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConditionalCheckFailedException, TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { SESClient, SendTemplatedEmailCommand } from '@aws-sdk/client-ses';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { Metrics } from '@aws-lambda-powertools/metrics';
+import { handler, processRecord } from '../../functions/OrderProcessor';
+import { SimulatedFailureError } from '../../functions/OrderProcessor/failureInjection';
+import { buildContext, buildItemMessage, buildSqsRecord } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const sqsMock = mockClient(SQSClient);
+const sesMock = mockClient(SESClient);
+const eventBridgeMock = mockClient(EventBridgeClient);
+
+const givenItem = (itemStatus: string) =>
+    dynamoDBMock.on(GetCommand, { TableName: 'OrderItemsTable' }).resolves({ Item: { itemStatus } });
+
+const givenOrder = (order: Record<string, unknown>) =>
+    dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' }).resolves({ Item: { totalItems: 2, processedItems: 0, failedItems: 0, ...order } });
+
+const transactionCancelled = (reasons: Record<string, unknown>[]) => new TransactionCanceledException({
+    message: 'Transaction cancelled',
+    $metadata: {},
+    CancellationReasons: reasons
+});
+
+// stock reservations and releases are the transactions that touch the InventoryTable, item outcomes are the others
+const transactionsOn = (tableName: string, touches = true) => dynamoDBMock.commandCalls(TransactWriteCommand)
+    .filter(call => call.args[0].input.TransactItems!.some(action => action.Update?.TableName === tableName) === touches);
+// the reservation is the only transaction that starts with a check of the order
+const givenReservationCancelled = (reasons: Record<string, unknown>[]) =>
+    dynamoDBMock.on(TransactWriteCommand).callsFake(input => input.TransactItems[0].ConditionCheck
+        ? Promise.reject(transactionCancelled(reasons))
+        : Promise.resolve({}));
+
+const publishedEvents = () => eventBridgeMock.commandCalls(PutEventsCommand)
+    .flatMap(call => call.args[0].input.Entries!)
+    .map(entry => ({ detailType: entry.DetailType, data: JSON.parse(entry.Detail!).data }));
+
+const reservations = () => transactionsOn('InventoryTable');
+const outcomes = () => transactionsOn('InventoryTable', false);
+
+// the failure rules can add processing delays, which the fake timers skip
+const runProcessRecord = async (itemId: string, receiveCount = 1) => {
+    const result = processRecord(buildSqsRecord(buildItemMessage(itemId), receiveCount), buildContext());
+    const settled = result.then(() => undefined, error => error);
+    await jest.runAllTimersAsync();
+    const error = await settled;
+    if (error) {
+        throw error;
+    }
+};
+
+describe('OrderProcessor.processRecord', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        dynamoDBMock.reset();
+        sqsMock.reset();
+        dynamoDBMock.on(GetCommand, { TableName: 'SuppressionTable' }).resolves({});
+        sesMock.reset();
+        sesMock.on(SendTemplatedEmailCommand).resolves({ MessageId: 'message-id' });
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('marks a pending item as PROCESSED and counts it against the order', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 1 });
+
+        await runProcessRecord('ITEM-452');
+
+        expect(reservations()).toHaveLength(1);
+        const [orderCheck, itemReservation, stockUpdate] = reservations()[0].args[0].input.TransactItems!;
+        expect(orderCheck.ConditionCheck?.TableName).toBe('OrdersTable');
+        expect(itemReservation.Update?.ExpressionAttributeValues).toMatchObject({ ':reserved': 'RESERVED' });
+        expect(stockUpdate.Update).toMatchObject({ Key: { sku: 'ITEM-452' }, ExpressionAttributeValues: { ':quantity': 2, ':minusQuantity': -2 } });
+
+        expect(outcomes()).toHaveLength(1);
+        const [itemUpdate, orderUpdate] = outcomes()[0].args[0].input.TransactItems!.map(action => action.Update!);
+        expect(itemUpdate.ExpressionAttributeValues).toMatchObject({ ':status': 'PROCESSED' });
+        expect(orderUpdate.UpdateExpression).toContain('ADD processedItems :one');
+    });
+
+    it('completes the order once its last item is processed and emails the customer', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 2 });
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).resolves({
+            Attributes: { orderId: 'ORD-TEST-001', orderStatus: 'COMPLETED', totalItems: 2, processedItems: 2, failedItems: 0, customerEmail: 'customer@example.com' }
+        });
+
+        await runProcessRecord('ITEM-452');
+
+        const orderUpdates = dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrdersTable' })
+            .filter(call => call.args[0].input.ExpressionAttributeValues?.[':status'] === 'COMPLETED');
+        expect(orderUpdates).toHaveLength(1);
+
+        const emails = sesMock.commandCalls(SendTemplatedEmailCommand);
+        expect(emails).toHaveLength(1);
+        expect(emails[0].args[0].input).toMatchObject({ Destination: { ToAddresses: ['customer@example.com'] }, Template: 'OrderCompleted' });
+
+        expect(publishedEvents()).toEqual([
+            { detailType: 'ItemProcessed', data: expect.objectContaining({ orderId: 'ORD-TEST-001', itemId: 'ITEM-452' }) },
+            { detailType: 'OrderCompleted', data: expect.objectContaining({ orderId: 'ORD-TEST-001', orderStatus: 'COMPLETED', processedItems: 2 }) }
+        ]);
+    });
+
+    it.each(['PROCESSED', 'FAILED', 'OUT_OF_STOCK'])('skips an item that is already %s', async itemStatus => {
+        givenItem(itemStatus);
+        givenOrder({ orderStatus: 'COMPLETED', processedItems: 2 });
+
+        await runProcessRecord('ITEM-452');
+
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+        expect(dynamoDBMock.commandCalls(UpdateCommand)).toHaveLength(0);
+        expect(publishedEvents()).toHaveLength(0);
+    });
+
+    it('rethrows processing failures so SQS retries the message', async () => {
+        givenItem('PENDING');
+
+        // the default failure rules always fail items ending in '3'
+        await expect(runProcessRecord('ITEM-223')).rejects.toBeInstanceOf(SimulatedFailureError);
+        expect(reservations()).toHaveLength(1);
+        expect(outcomes()).toHaveLength(0);
+    });
+
+    it('succeeds on the retry of an item that only fails its first attempt', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 1 });
+
+        await expect(runProcessRecord('ITEM-101', 1)).rejects.toBeInstanceOf(SimulatedFailureError);
+        await runProcessRecord('ITEM-101', 2);
+
+        expect(outcomes()).toHaveLength(1);
+    });
+
+    it('counts the retry, the processed item and its latency in the metrics', async () => {
+        const addMetric = jest.spyOn(Metrics.prototype, 'addMetric');
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 1 });
+
+        await runProcessRecord('ITEM-452', 2);
+
+        expect(addMetric.mock.calls.map(([name, unit]) => [name, unit])).toEqual([
+            ['ItemRetries', 'Count'],
+            ['ItemsProcessed', 'Count'],
+            ['ItemProcessingLatency', 'Milliseconds']
+        ]);
+        addMetric.mockRestore();
+    });
+
+    it('does not reserve the stock again when a retry finds it already reserved', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 1 });
+        givenReservationCancelled([
+            { Code: 'None' },
+            { Code: 'ConditionalCheckFailed', Item: { itemStatus: { S: 'PENDING' }, reservationStatus: { S: 'RESERVED' } } },
+            { Code: 'None' }
+        ]);
+
+        await runProcessRecord('ITEM-452', 2);
+
+        expect(outcomes()).toHaveLength(1);
+        expect(outcomes()[0].args[0].input.TransactItems![0].Update?.ExpressionAttributeValues).toMatchObject({ ':status': 'PROCESSED' });
+    });
+
+    it('marks the item OUT_OF_STOCK without retrying it when there is not enough stock', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 0, failedItems: 1 });
+        givenReservationCancelled([
+            { Code: 'None' },
+            { Code: 'None' },
+            { Code: 'ConditionalCheckFailed' }
+        ]);
+
+        // ITEM-223 always fails processing, so this also shows that processing never started
+        await runProcessRecord('ITEM-223');
+
+        expect(outcomes()).toHaveLength(1);
+        const [itemUpdate, orderUpdate] = outcomes()[0].args[0].input.TransactItems!.map(action => action.Update!);
+        expect(itemUpdate.ExpressionAttributeValues).toMatchObject({ ':status': 'OUT_OF_STOCK' });
+        expect(orderUpdate.UpdateExpression).toContain('ADD failedItems :one');
+        expect(publishedEvents()).toEqual([{ detailType: 'ItemFailed', data: expect.objectContaining({ itemId: 'ITEM-223', itemStatus: 'OUT_OF_STOCK' }) }]);
+    });
+
+    it('still processes the item when its event is not published', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 1 });
+        eventBridgeMock.on(PutEventsCommand).rejects(new Error('EventBridge is unavailable'));
+
+        await runProcessRecord('ITEM-452');
+
+        expect(outcomes()).toHaveLength(1);
+    });
+
+    it('releases the stock the order still holds once it ends up FAILED', async () => {
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING', processedItems: 0, failedItems: 2 });
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).resolves({
+            Attributes: { orderId: 'ORD-TEST-001', orderStatus: 'FAILED', totalItems: 2, processedItems: 0, failedItems: 2 }
+        });
+        givenReservationCancelled([
+            { Code: 'None' },
+            { Code: 'None' },
+            { Code: 'ConditionalCheckFailed' }
+        ]);
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({
+            Items: [
+                { orderId: 'ORD-TEST-001', itemId: 'ITEM-101', quantity: 2, itemStatus: 'FAILED', reservationStatus: 'RESERVED', reservedSku: 'SKU-101' },
+                { orderId: 'ORD-TEST-001', itemId: 'ITEM-452', quantity: 3, itemStatus: 'OUT_OF_STOCK' }
+            ]
+        });
+
+        await runProcessRecord('ITEM-452');
+
+        const releases = reservations().filter(call => !call.args[0].input.TransactItems![0].ConditionCheck);
+        expect(releases).toHaveLength(1);
+        const [itemRelease, stockUpdate] = releases[0].args[0].input.TransactItems!.map(action => action.Update!);
+        expect(itemRelease.Key).toEqual({ orderId: 'ORD-TEST-001', itemId: 'ITEM-101' });
+        expect(itemRelease.ExpressionAttributeValues).toMatchObject({ ':released': 'RELEASED' });
+        expect(stockUpdate).toMatchObject({ Key: { sku: 'SKU-101' }, ExpressionAttributeValues: { ':quantity': 2 } });
+    });
+
+    it('cancels the item instead of processing it when the order was cancelled', async () => {
+        givenItem('PENDING');
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).rejects(new ConditionalCheckFailedException({
+            message: 'The conditional request failed',
+            $metadata: {},
+            Item: { orderStatus: { S: 'CANCELLED' } }
+        }));
+
+        await runProcessRecord('ITEM-452');
+
+        const itemUpdates = dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrderItemsTable' });
+        expect(itemUpdates).toHaveLength(1);
+        expect(itemUpdates[0].args[0].input.ExpressionAttributeValues).toMatchObject({ ':cancelled': 'CANCELLED' });
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+        expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+    });
+
+    it('cancels the item and gives back its stock, without compensating it, when the order is cancelled while it is processed', async () => {
+        dynamoDBMock.on(GetCommand, { TableName: 'OrderItemsTable' })
+            .resolves({ Item: { itemStatus: 'PENDING', reservationStatus: 'RESERVED', reservedSku: 'SKU-452', quantity: 3 } });
+        dynamoDBMock.on(TransactWriteCommand).callsFake(input => input.TransactItems[1].Update?.TableName === 'OrdersTable'
+            ? Promise.reject(transactionCancelled([{ Code: 'None' }, { Code: 'ConditionalCheckFailed', Item: { orderStatus: { S: 'CANCELLED' } } }]))
+            : Promise.resolve({}));
+
+        await runProcessRecord('ITEM-452');
+
+        const itemUpdates = dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrderItemsTable' });
+        expect(itemUpdates).toHaveLength(1);
+        expect(itemUpdates[0].args[0].input.ExpressionAttributeValues).toMatchObject({ ':cancelled': 'CANCELLED' });
+        // the reservation, then its release
+        const [, release] = reservations();
+        const [itemRelease, stockUpdate] = release.args[0].input.TransactItems!.map(action => action.Update!);
+        expect(itemRelease.ConditionExpression).toBe('reservationStatus = :reserved');
+        expect(stockUpdate).toMatchObject({ Key: { sku: 'SKU-452' }, ExpressionAttributeValues: { ':quantity': 3 } });
+        expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+        expect(publishedEvents()).toEqual([]);
+    });
+});
+
+describe('OrderProcessor.handler', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(GetCommand, { TableName: 'SuppressionTable' }).resolves({});
+        givenItem('PENDING');
+        givenOrder({ orderStatus: 'PROCESSING' });
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+    });
+
+    it('reports the record that failed and the rest of its message group as batch item failures', async () => {
+        // the default failure rules always fail the items whose id ends in 3
+        const records = [buildSqsRecord(buildItemMessage('ITEM-452')), buildSqsRecord(buildItemMessage('ITEM-223')), buildSqsRecord(buildItemMessage('ITEM-678'))];
+        const otherOrder = buildSqsRecord({ ...buildItemMessage('ITEM-452'), orderId: 'ORD-TEST-002' });
+        otherOrder.attributes.MessageGroupId = 'ORD-TEST-002';
+
+        const response = await handler({ Records: [records[0], otherOrder, records[1], records[2]] }, buildContext());
+
+        expect(response.batchItemFailures).toEqual([{ itemIdentifier: records[1].messageId }, { itemIdentifier: records[2].messageId }]);
+        // the item after the failed one isn't processed, so its group is retried in order
+        const reservedItems = reservations().map(call => call.args[0].input.TransactItems![1].Update!.Key);
+        expect(reservedItems).toEqual(expect.arrayContaining([
+            { orderId: 'ORD-TEST-001', itemId: 'ITEM-452' },
+            { orderId: 'ORD-TEST-001', itemId: 'ITEM-223' },
+            { orderId: 'ORD-TEST-002', itemId: 'ITEM-452' }
+        ]));
+        expect(reservedItems).toHaveLength(3);
+        expect(outcomes().map(call => call.args[0].input.TransactItems![0].Update!.Key)).toEqual(expect.arrayContaining([
+            { orderId: 'ORD-TEST-001', itemId: 'ITEM-452' },
+            { orderId: 'ORD-TEST-002', itemId: 'ITEM-452' }
+        ]));
+        expect(outcomes()).toHaveLength(2);
+    });
+});
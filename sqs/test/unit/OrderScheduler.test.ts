@@ -0,0 +1,124 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import type { ScheduledEvent, SQSEvent } from 'aws-lambda';
+import { handler } from '../../functions/OrderScheduler';
+import { buildContext, buildItemMessage, buildSqsRecord, orderTimestamp, sampleOrder } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+
+const orderKey = { orderId: sampleOrder.orderId, timestamp: orderTimestamp };
+const scheduledOrder = {
+    ...orderKey,
+    orderStatus: 'SCHEDULED',
+    scheduledFor: '2025-09-12T12:00:00.000Z',
+    scheduleStatus: 'SCHEDULED',
+    lane: 'express',
+    correlationId: 'checkout-1234'
+};
+
+const scheduledEvent = { 'detail-type': 'Scheduled Event', source: 'aws.events' } as ScheduledEvent;
+
+describe('OrderScheduler', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' }).resolves({ Item: scheduledOrder });
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' })
+            .resolves({ Items: [{ ...buildItemMessage('ITEM-101'), lane: 'express' }, { ...buildItemMessage('ITEM-452'), lane: 'express' }] });
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+    });
+
+    it('releases the due orders of the scheduled-index and writes their items to the outbox', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [orderKey] });
+
+        const result = await handler(scheduledEvent, buildContext());
+
+        expect(result).toEqual({ releasedOrders: [sampleOrder.orderId] });
+        const [orderUpdate, outboxPut] = dynamoDBMock.commandCalls(TransactWriteCommand)[0].args[0].input.TransactItems!;
+        expect(orderUpdate.Update!.UpdateExpression).toContain('REMOVE scheduleStatus');
+        expect(orderUpdate.Update!.ExpressionAttributeValues).toMatchObject({ ':pending': 'PENDING', ':scheduled': 'SCHEDULED' });
+        expect(outboxPut.Put!.Item!.messages).toEqual([
+            expect.objectContaining({ itemId: 'ITEM-101', lane: 'express', correlationId: 'checkout-1234', deduplicationId: `${sampleOrder.orderId}#ITEM-101#0` }),
+            expect.objectContaining({ itemId: 'ITEM-452', lane: 'express', correlationId: 'checkout-1234' })
+        ]);
+    });
+
+    it('only lists the SCHEDULED orders that are due, following the pages of the scheduled-index', async () => {
+        const otherOrderKey = { orderId: 'ORD-TEST-002', timestamp: orderTimestamp };
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' })
+            .resolvesOnce({ Items: [orderKey], LastEvaluatedKey: orderKey })
+            .resolvesOnce({ Items: [otherOrderKey] });
+
+        const result = await handler(scheduledEvent, buildContext());
+
+        expect(result).toEqual({ releasedOrders: [sampleOrder.orderId, 'ORD-TEST-002'] });
+        const queries = dynamoDBMock.commandCalls(QueryCommand, { TableName: 'OrdersTable' }).map(call => call.args[0].input);
+        expect(queries).toHaveLength(2);
+        expect(queries[0]).toMatchObject({
+            IndexName: 'scheduled-index',
+            KeyConditionExpression: 'scheduleStatus = :scheduled AND scheduledFor <= :now',
+            ExpressionAttributeValues: { ':scheduled': 'SCHEDULED', ':now': expect.any(String) }
+        });
+        expect(queries[1].ExclusiveStartKey).toEqual(orderKey);
+    });
+
+    it('leaves an order that fails to release for the next run, and releases the others', async () => {
+        const otherOrderKey = { orderId: 'ORD-TEST-002', timestamp: orderTimestamp };
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [orderKey, otherOrderKey] });
+        dynamoDBMock.on(TransactWriteCommand).rejectsOnce(new Error('Throughput exceeded')).resolves({});
+
+        const result = await handler(scheduledEvent, buildContext());
+
+        expect(result).toEqual({ releasedOrders: ['ORD-TEST-002'] });
+    });
+
+    it('releases the order of a delayed release message', async () => {
+        const event: SQSEvent = { Records: [buildSqsRecord(orderKey)] };
+
+        const result = await handler(event, buildContext());
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(1);
+    });
+
+    it('retries the release messages of the orders that failed to release', async () => {
+        dynamoDBMock.on(TransactWriteCommand).rejectsOnce(new Error('Throughput exceeded')).resolves({});
+        const records = [buildSqsRecord(orderKey), buildSqsRecord({ orderId: 'ORD-TEST-002', timestamp: orderTimestamp })];
+
+        const result = await handler({ Records: records }, buildContext());
+
+        expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: records[0].messageId }] });
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(2);
+    });
+
+    it('drops a release message that cannot be parsed, and still releases the orders of the others', async () => {
+        const records = [{ ...buildSqsRecord({}), body: 'not json' }, buildSqsRecord(orderKey)];
+
+        const result = await handler({ Records: records }, buildContext());
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(1);
+    });
+
+    it('leaves an order that was cancelled before its release', async () => {
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' }).resolves({ Item: { ...scheduledOrder, orderStatus: 'CANCELLED' } });
+
+        const result = await handler({ Records: [buildSqsRecord(orderKey)] }, buildContext());
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+    });
+
+    it('does not release an order that changed while it was being released', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [orderKey] });
+        dynamoDBMock.on(TransactWriteCommand).rejects(new TransactionCanceledException({
+            message: 'Transaction cancelled',
+            $metadata: {},
+            CancellationReasons: [{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }]
+        }));
+
+        const result = await handler(scheduledEvent, buildContext());
+
+        expect(result).toEqual({ releasedOrders: [] });
+    });
+});
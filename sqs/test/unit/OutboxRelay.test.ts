@@ -0,0 +1,215 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageBatchCommand, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { marshall } from '@aws-sdk/util-dynamodb';
+import type { AttributeValue, DynamoDBRecord } from 'aws-lambda';
+import { handler } from '../../functions/OutboxRelay';
+import { buildDomainEvent, DomainEventType } from '../../functions/shared/domainEvents';
+import { buildItemMessages, buildOutboxEntry, type OutboxEntry } from '../../functions/shared/outbox';
+import { buildContext, buildItemMessage, orderTimestamp, sampleOrder } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const sqsMock = mockClient(SQSClient);
+const eventBridgeMock = mockClient(EventBridgeClient);
+
+const STANDARD_QUEUE_URL = process.env.STANDARD_QUEUE_URL;
+const EXPRESS_QUEUE_URL = process.env.EXPRESS_QUEUE_URL;
+
+let sequenceNumber = 0;
+
+// the stream record of an outbox entry, as the table's stream delivers it
+const buildStreamRecord = (entry: OutboxEntry, eventName: DynamoDBRecord['eventName'] = 'INSERT'): DynamoDBRecord => ({
+    eventName,
+    dynamodb: {
+        SequenceNumber: String(++sequenceNumber),
+        NewImage: marshall(entry, { removeUndefinedValues: true }) as Record<string, AttributeValue>
+    }
+});
+
+const buildEntry = (orderId: string, itemIds: string[], lane: 'standard' | 'express' = 'standard') => buildOutboxEntry(
+    `${orderId}#submit`,
+    orderId,
+    buildItemMessages(itemIds.map(itemId => ({ ...buildItemMessage(itemId), orderId })), lane)
+);
+
+// the entries that were accepted get a message id made from their deduplication id
+const acceptAll = (input: { Entries?: { Id?: string; MessageDeduplicationId?: string }[] }) => ({
+    Successful: input.Entries!.map(entry => ({ Id: entry.Id, MessageId: `msg-${entry.MessageDeduplicationId}` }))
+});
+
+const batches = () => sqsMock.commandCalls(SendMessageBatchCommand).map(call => call.args[0].input);
+const sentMessagesOf = (outboxId: string) => dynamoDBMock.commandCalls(UpdateCommand)
+    .map(call => call.args[0].input)
+    .find(input => input.Key!.outboxId === outboxId)?.ExpressionAttributeValues![':sentMessages'];
+
+// failed sends are retried with a backoff, which the fake timers skip
+const runHandler = async (records: DynamoDBRecord[]) => {
+    const result = handler({ Records: records }, buildContext());
+    await jest.runAllTimersAsync();
+    return result;
+};
+
+describe('OutboxRelay', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        dynamoDBMock.reset();
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        sqsMock.reset();
+        sqsMock.on(SendMessageBatchCommand).callsFake(acceptAll);
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('sends every message to the queue of its lane and marks the entry as SENT', async () => {
+        const entry = buildEntry(sampleOrder.orderId, ['ITEM-101', 'ITEM-452'], 'express');
+        // entries written before lanes were introduced have no lane on their messages
+        const { lane, ...legacyMessage } = buildItemMessages([buildItemMessage('ITEM-678')], 'standard')[0];
+        entry.messages.push(legacyMessage);
+
+        const result = await runHandler([buildStreamRecord(entry)]);
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(batches().map(batch => [batch.QueueUrl, batch.Entries!.map(message => JSON.parse(message.MessageBody!).itemId)])).toEqual([
+            [EXPRESS_QUEUE_URL, ['ITEM-101', 'ITEM-452']],
+            [STANDARD_QUEUE_URL, ['ITEM-678']]
+        ]);
+        expect(batches()[0].Entries![0]).toMatchObject({ MessageGroupId: sampleOrder.orderId, MessageDeduplicationId: `${sampleOrder.orderId}#ITEM-101#0` });
+        expect(sentMessagesOf(entry.outboxId)).toEqual({
+            'ITEM-101': `msg-${sampleOrder.orderId}#ITEM-101#0`,
+            'ITEM-452': `msg-${sampleOrder.orderId}#ITEM-452#0`,
+            'ITEM-678': `msg-${sampleOrder.orderId}#ITEM-678#0`
+        });
+    });
+
+    it('sends the messages of a large entry in batches of 10', async () => {
+        const entry = buildEntry(sampleOrder.orderId, Array.from({ length: 12 }, (_, index) => `ITEM-${index}`));
+
+        await runHandler([buildStreamRecord(entry)]);
+
+        expect(batches().map(batch => batch.Entries!.length)).toEqual([10, 2]);
+        expect(Object.keys(sentMessagesOf(entry.outboxId))).toHaveLength(12);
+    });
+
+    it('retries only the batch entries that failed, with the same deduplication ids', async () => {
+        sqsMock.on(SendMessageBatchCommand)
+            .resolvesOnce({
+                Successful: [{ Id: '0', MessageId: 'msg-101', MD5OfMessageBody: '' }],
+                Failed: [{ Id: '1', Code: 'InternalError', SenderFault: false, Message: 'Try again' }]
+            })
+            .callsFake(acceptAll);
+        const entry = buildEntry(sampleOrder.orderId, ['ITEM-101', 'ITEM-452']);
+
+        const result = await runHandler([buildStreamRecord(entry)]);
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(batches().map(batch => batch.Entries!.map(message => [message.Id, message.MessageDeduplicationId]))).toEqual([
+            [['0', `${sampleOrder.orderId}#ITEM-101#0`], ['1', `${sampleOrder.orderId}#ITEM-452#0`]],
+            [['1', `${sampleOrder.orderId}#ITEM-452#0`]]
+        ]);
+        expect(sentMessagesOf(entry.outboxId)).toEqual({ 'ITEM-101': 'msg-101', 'ITEM-452': `msg-${sampleOrder.orderId}#ITEM-452#0` });
+    });
+
+    it('retries the whole batch when the request fails', async () => {
+        sqsMock.on(SendMessageBatchCommand).rejectsOnce(new Error('Service unavailable')).callsFake(acceptAll);
+
+        const result = await runHandler([buildStreamRecord(buildEntry(sampleOrder.orderId, ['ITEM-101', 'ITEM-452']))]);
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(batches().map(batch => batch.Entries!.length)).toEqual([2, 2]);
+    });
+
+    it('stops at the first record that keeps failing and reports it, so the stream retries from there', async () => {
+        const records = [
+            buildStreamRecord(buildEntry('ORD-TEST-001', ['ITEM-101'])),
+            buildStreamRecord(buildEntry('ORD-TEST-002', ['ITEM-101'])),
+            buildStreamRecord(buildEntry('ORD-TEST-003', ['ITEM-101']))
+        ];
+        sqsMock.on(SendMessageBatchCommand).callsFake(input => input.Entries[0].MessageGroupId === 'ORD-TEST-002'
+            ? { Failed: [{ Id: '0', Code: 'InternalError', SenderFault: false, Message: 'Try again' }] }
+            : acceptAll(input));
+
+        const result = await runHandler(records);
+
+        expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: records[1].dynamodb!.SequenceNumber }] });
+        // three attempts for the failing entry, and nothing for the entry after it
+        expect(batches().map(batch => batch.Entries![0].MessageGroupId))
+            .toEqual(['ORD-TEST-001', 'ORD-TEST-002', 'ORD-TEST-002', 'ORD-TEST-002']);
+        expect(sentMessagesOf('ORD-TEST-002#submit')).toBeUndefined();
+    });
+
+    it('ignores the stream records of entries that were updated or removed', async () => {
+        const entry = buildEntry(sampleOrder.orderId, ['ITEM-101']);
+
+        const result = await runHandler([buildStreamRecord(entry, 'MODIFY'), buildStreamRecord(entry, 'REMOVE')]);
+
+        expect(result).toEqual({ batchItemFailures: [] });
+        expect(batches()).toHaveLength(0);
+    });
+
+    describe('release of a scheduled order', () => {
+        const now = Date.parse('2025-09-12T12:00:00.000Z');
+        const buildReleaseEntry = (dueInSeconds: number) => buildOutboxEntry(`${sampleOrder.orderId}#submit`, sampleOrder.orderId, [], {
+            orderId: sampleOrder.orderId,
+            timestamp: orderTimestamp,
+            scheduledFor: new Date(now + dueInSeconds * 1000).toISOString(),
+            correlationId: 'checkout-1234'
+        });
+
+        beforeEach(() => {
+            jest.setSystemTime(now);
+            sqsMock.on(SendMessageCommand).resolves({ MessageId: 'release-message' });
+        });
+
+        it('sends the release message to the scheduled queue, delayed until the order is due', async () => {
+            const entry = buildReleaseEntry(5 * 60);
+
+            const result = await runHandler([buildStreamRecord(entry)]);
+
+            expect(result).toEqual({ batchItemFailures: [] });
+            const releases = sqsMock.commandCalls(SendMessageCommand).map(call => call.args[0].input);
+            expect(releases).toEqual([expect.objectContaining({ QueueUrl: process.env.SCHEDULED_QUEUE_URL, DelaySeconds: 300 })]);
+            expect(JSON.parse(releases[0].MessageBody!)).toEqual({ orderId: sampleOrder.orderId, timestamp: orderTimestamp });
+            expect(releases[0].MessageAttributes).toEqual({ CorrelationId: { DataType: 'String', StringValue: 'checkout-1234' } });
+            expect(batches()).toHaveLength(0);
+            expect(sentMessagesOf(entry.outboxId)).toEqual({ release: 'release-message' });
+        });
+
+        it.each([
+            ['caps the delay at the 15 minute SQS limit', 20 * 60, 900],
+            ['sends the release of an order that is already due without a delay', -30, 0]
+        ])('%s', async (_, dueInSeconds, delaySeconds) => {
+            await runHandler([buildStreamRecord(buildReleaseEntry(dueInSeconds))]);
+
+            expect(sqsMock.commandCalls(SendMessageCommand)[0].args[0].input.DelaySeconds).toBe(delaySeconds);
+        });
+
+        it('publishes the events ahead of the release message, and retries the record when the release fails', async () => {
+            const entry = buildReleaseEntry(60);
+            entry.events = [buildDomainEvent(DomainEventType.ORDER_PLACED, {
+                orderId: sampleOrder.orderId,
+                userId: sampleOrder.userId,
+                timestamp: orderTimestamp,
+                orderStatus: 'SCHEDULED',
+                priority: 'normal',
+                lane: 'standard',
+                scheduledFor: entry.release!.scheduledFor,
+                totalValue: 17.25,
+                items: []
+            })];
+            sqsMock.on(SendMessageCommand).rejects(new Error('Service unavailable'));
+            const record = buildStreamRecord(entry);
+
+            const result = await runHandler([record]);
+
+            // the failed release is retried with the stream record, the events go out again with the same ids
+            expect(result).toEqual({ batchItemFailures: [{ itemIdentifier: record.dynamodb!.SequenceNumber }] });
+            expect(eventBridgeMock.commandCalls(PutEventsCommand)).toHaveLength(1);
+            expect(sentMessagesOf(entry.outboxId)).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,113 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { TransactionCanceledException } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, TransactWriteCommand } from '@aws-sdk/lib-dynamodb';
+import { replayItems } from '../../functions/RedriveManager';
+import { buildItemMessage, orderTimestamp, sampleOrder } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+
+const order = { orderId: sampleOrder.orderId, timestamp: orderTimestamp, orderStatus: 'PARTIALLY_FAILED', correlationId: 'checkout-1234' };
+
+const givenItems = (items: Record<string, unknown>[]) =>
+    dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({ Items: items });
+
+const transactionCancelled = (reasons: Record<string, unknown>[]) => new TransactionCanceledException({
+    message: 'Transaction cancelled',
+    $metadata: {},
+    CancellationReasons: reasons
+});
+
+const replay = (itemIds?: string[]) => replayItems(sampleOrder.orderId, itemIds);
+
+const transactions = () => dynamoDBMock.commandCalls(TransactWriteCommand).map(call => call.args[0].input.TransactItems!);
+
+describe('RedriveManager.replayItems', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [order] });
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+    });
+
+    it('moves a FAILED item back to PENDING, takes it off the failed count and queues it through the outbox', async () => {
+        givenItems([{ ...buildItemMessage('ITEM-101'), itemStatus: 'PROCESSED' }, { ...buildItemMessage('ITEM-452'), itemStatus: 'FAILED', lane: 'express' }]);
+
+        const result = await replay();
+
+        expect(result).toEqual({ orderId: sampleOrder.orderId, results: [{ itemId: 'ITEM-452', outcome: 'REPLAYED', redriveCount: 1 }] });
+        const [itemUpdate, orderUpdate, outboxPut] = transactions()[0];
+        expect(itemUpdate.Update).toMatchObject({
+            Key: { orderId: sampleOrder.orderId, itemId: 'ITEM-452' },
+            ConditionExpression: 'itemStatus = :failed AND attribute_not_exists(redriveCount)',
+            ExpressionAttributeValues: expect.objectContaining({ ':pending': 'PENDING', ':failed': 'FAILED', ':redriveCount': 1 })
+        });
+        expect(orderUpdate.Update!.UpdateExpression).toContain('ADD failedItems :minusOne');
+        expect(orderUpdate.Update!.ExpressionAttributeValues).toMatchObject({ ':processing': 'PROCESSING', ':minusOne': -1 });
+        expect(outboxPut.Put!.Item).toMatchObject({
+            outboxId: `${sampleOrder.orderId}#ITEM-452#redrive-1`,
+            messages: [expect.objectContaining({ itemId: 'ITEM-452', lane: 'express', correlationId: 'checkout-1234' })]
+        });
+    });
+
+    it('sends each redrive with the deduplication id of its new generation', async () => {
+        givenItems([{ ...buildItemMessage('ITEM-452'), itemStatus: 'FAILED', redriveCount: 2 }]);
+
+        const result = await replay(['ITEM-452']);
+
+        expect(result.results).toEqual([{ itemId: 'ITEM-452', outcome: 'REPLAYED', redriveCount: 3 }]);
+        const [itemUpdate, , outboxPut] = transactions()[0];
+        expect(itemUpdate.Update).toMatchObject({
+            ConditionExpression: 'itemStatus = :failed AND redriveCount = :previousRedriveCount',
+            ExpressionAttributeValues: expect.objectContaining({ ':redriveCount': 3, ':previousRedriveCount': 2 })
+        });
+        expect(outboxPut.Put!.Item!.messages[0].deduplicationId).toBe(`${sampleOrder.orderId}#ITEM-452#3`);
+    });
+
+    it('refuses items that are not FAILED, or not on the order', async () => {
+        givenItems([
+            { ...buildItemMessage('ITEM-101'), itemStatus: 'PROCESSED' },
+            { ...buildItemMessage('ITEM-452'), itemStatus: 'CANCELLED' },
+            { ...buildItemMessage('ITEM-678'), itemStatus: 'PENDING' }
+        ]);
+
+        const result = await replay(['ITEM-101', 'ITEM-452', 'ITEM-678', 'ITEM-999']);
+
+        expect(result.results).toEqual([
+            { itemId: 'ITEM-101', outcome: 'REFUSED', reason: 'item is PROCESSED' },
+            { itemId: 'ITEM-452', outcome: 'REFUSED', reason: 'item is CANCELLED' },
+            { itemId: 'ITEM-678', outcome: 'REFUSED', reason: 'item is PENDING' },
+            { itemId: 'ITEM-999', outcome: 'REFUSED', reason: 'item not found' }
+        ]);
+        expect(transactions()).toHaveLength(0);
+    });
+
+    it('refuses an item that changed while it was being replayed', async () => {
+        givenItems([{ ...buildItemMessage('ITEM-452'), itemStatus: 'FAILED' }]);
+        dynamoDBMock.on(TransactWriteCommand).rejects(transactionCancelled([{ Code: 'ConditionalCheckFailed' }, { Code: 'None' }, { Code: 'None' }]));
+
+        const result = await replay();
+
+        expect(result.results).toEqual([{ itemId: 'ITEM-452', outcome: 'REFUSED', reason: 'item changed while it was being replayed' }]);
+    });
+
+    it('refuses the items of an order that was cancelled', async () => {
+        givenItems([{ ...buildItemMessage('ITEM-452'), itemStatus: 'FAILED' }]);
+        dynamoDBMock.on(TransactWriteCommand).rejects(transactionCancelled([{ Code: 'None' }, { Code: 'ConditionalCheckFailed' }, { Code: 'None' }]));
+
+        const result = await replay();
+
+        expect(result.results).toEqual([{ itemId: 'ITEM-452', outcome: 'REFUSED', reason: 'order was cancelled' }]);
+    });
+
+    it('rethrows other failures, so the replay can be run again', async () => {
+        givenItems([{ ...buildItemMessage('ITEM-452'), itemStatus: 'FAILED' }]);
+        dynamoDBMock.on(TransactWriteCommand).rejects(new Error('Throughput exceeded'));
+
+        await expect(replay()).rejects.toThrow('Throughput exceeded');
+    });
+
+    it('fails for an order that does not exist', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [] });
+
+        await expect(replay()).rejects.toThrow(`Order ${sampleOrder.orderId} not found`);
+    });
+});
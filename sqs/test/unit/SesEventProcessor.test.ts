@@ -0,0 +1,83 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { DynamoDBDocumentClient, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import type { SNSEvent } from 'aws-lambda';
+import { handler } from '../../functions/SesEventProcessor';
+import { buildContext } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+
+const buildSnsEvent = (message: unknown): SNSEvent => ({
+    Records: [{
+        EventSource: 'aws:sns',
+        EventVersion: '1.0',
+        EventSubscriptionArn: 'arn:aws:sns:us-east-1:000000000000:sqs-ses-events-topic:subscription',
+        Sns: {
+            Type: 'Notification',
+            MessageId: 'sns-message-id',
+            TopicArn: 'arn:aws:sns:us-east-1:000000000000:sqs-ses-events-topic',
+            Subject: 'Amazon SES Email Event Notification',
+            Message: typeof message === 'string' ? message : JSON.stringify(message),
+            Timestamp: '2025-09-12T10:00:00.000Z',
+            SignatureVersion: '1',
+            Signature: 'signature',
+            SigningCertUrl: 'https://example.com/cert.pem',
+            UnsubscribeUrl: 'https://example.com/unsubscribe',
+            MessageAttributes: {}
+        }
+    }]
+});
+
+const suppressedAddresses = () => dynamoDBMock.commandCalls(UpdateCommand).map(call => ({
+    email: call.args[0].input.Key!.email,
+    reason: call.args[0].input.ExpressionAttributeValues![':reason']
+}));
+
+describe('SesEventProcessor', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(UpdateCommand).resolves({});
+    });
+
+    it('suppresses every recipient of a permanent bounce', async () => {
+        await handler(buildSnsEvent({
+            eventType: 'Bounce',
+            mail: { messageId: 'ses-message-id' },
+            bounce: {
+                bounceType: 'Permanent',
+                bounceSubType: 'General',
+                bouncedRecipients: [{ emailAddress: 'Bounce@simulator.amazonses.com' }]
+            }
+        }), buildContext());
+
+        expect(suppressedAddresses()).toEqual([{ email: 'bounce@simulator.amazonses.com', reason: 'BOUNCE' }]);
+    });
+
+    it('suppresses the recipients of a complaint notification', async () => {
+        await handler(buildSnsEvent({
+            notificationType: 'Complaint',
+            mail: { messageId: 'ses-message-id' },
+            complaint: { complaintFeedbackType: 'abuse', complainedRecipients: [{ emailAddress: 'complaint@simulator.amazonses.com' }] }
+        }), buildContext());
+
+        expect(suppressedAddresses()).toEqual([{ email: 'complaint@simulator.amazonses.com', reason: 'COMPLAINT' }]);
+    });
+
+    it.each([
+        ['a transient bounce', { eventType: 'Bounce', bounce: { bounceType: 'Transient', bouncedRecipients: [{ emailAddress: 'ooto@simulator.amazonses.com' }] } }],
+        ['a reject', { eventType: 'Reject', reject: { reason: 'Bad content' } }],
+        ['a message that is not JSON', 'not json']
+    ])('ignores %s', async (_description, message) => {
+        await handler(buildSnsEvent(message), buildContext());
+
+        expect(dynamoDBMock.commandCalls(UpdateCommand)).toHaveLength(0);
+    });
+
+    it('fails so that the event is retried when the address cannot be stored', async () => {
+        dynamoDBMock.on(UpdateCommand).rejects(new Error('Service unavailable'));
+
+        await expect(handler(buildSnsEvent({
+            eventType: 'Complaint',
+            complaint: { complainedRecipients: [{ emailAddress: 'complaint@simulator.amazonses.com' }] }
+        }), buildContext())).rejects.toThrow('Service unavailable');
+    });
+});
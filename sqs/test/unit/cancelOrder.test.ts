@@ -0,0 +1,148 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, GetCommand, QueryCommand, TransactWriteCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { SQSClient, SendMessageCommand } from '@aws-sdk/client-sqs';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import { cancelOrder } from '../../functions/OrderApi/cancelOrder';
+import { FakePaymentProvider } from '../../functions/shared/payments';
+import { buildItemMessage, orderTimestamp, sampleOrder } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const sqsMock = mockClient(SQSClient);
+const eventBridgeMock = mockClient(EventBridgeClient);
+const dynamoDB = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const sqs = new SQSClient({});
+const eventBridge = new EventBridgeClient({});
+const payments = new FakePaymentProvider(50000);
+
+const order = {
+    orderId: sampleOrder.orderId,
+    userId: sampleOrder.userId,
+    timestamp: orderTimestamp,
+    orderStatus: 'PROCESSING',
+    correlationId: 'checkout-1234',
+    paymentStatus: 'AUTHORIZED',
+    paymentTransactions: [{ type: 'AUTHORIZATION', transactionId: 'fake_auth_1', amount: 17.25, createdAt: orderTimestamp }]
+};
+
+// the latte was processed, the espresso holds a reservation but wasn't processed yet and the muffin failed
+const items = [
+    { ...buildItemMessage('ITEM-101'), itemStatus: 'PROCESSED', reservationStatus: 'RESERVED', reservedSku: 'SKU-101' },
+    { ...buildItemMessage('ITEM-452'), itemStatus: 'PENDING', reservationStatus: 'RESERVED', reservedSku: 'SKU-452' },
+    { ...buildItemMessage('ITEM-678'), itemStatus: 'FAILED', reservationStatus: 'RELEASED' }
+];
+
+const orderUpdates = () => dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrdersTable' }).map(call => call.args[0].input);
+const itemUpdates = () => dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrderItemsTable' }).map(call => call.args[0].input);
+
+const conditionFailed = (orderStatus: string) => new ConditionalCheckFailedException({
+    message: 'The conditional request failed',
+    $metadata: {},
+    Item: { orderStatus: { S: orderStatus } }
+});
+
+describe('cancelOrder', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [order] });
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({ Items: items });
+        dynamoDBMock.on(UpdateCommand).resolves({});
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).resolves({ Attributes: { orderStatus: 'PROCESSING' } });
+        dynamoDBMock.on(TransactWriteCommand).resolves({});
+        sqsMock.reset();
+        sqsMock.on(SendMessageCommand).resolves({ MessageId: 'compensation-message' });
+        eventBridgeMock.reset();
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+    });
+
+    it.each(['SCHEDULED', 'PENDING', 'PROCESSING'])('cancels an order that is %s, as long as it still is when it is updated', async orderStatus => {
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).resolves({ Attributes: { orderStatus } });
+
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result.outcome).toBe('CANCELLED');
+        expect(orderUpdates()[0]).toMatchObject({
+            Key: { orderId: sampleOrder.orderId, timestamp: orderTimestamp },
+            UpdateExpression: expect.stringContaining('REMOVE scheduleStatus'),
+            ConditionExpression: 'orderStatus IN (:scheduled, :pending, :processing)',
+            ExpressionAttributeValues: expect.objectContaining({ ':cancelled': 'CANCELLED' })
+        });
+        const [event] = eventBridgeMock.commandCalls(PutEventsCommand)[0].args[0].input.Entries!;
+        expect(event.DetailType).toBe('OrderCancelled');
+        expect(JSON.parse(event.Detail!)).toMatchObject({ metadata: { correlationId: 'checkout-1234' }, data: { previousStatus: orderStatus } });
+    });
+
+    it('cancels the PENDING items and asks downstream systems to undo the PROCESSED ones', async () => {
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toMatchObject({ cancelledItems: ['ITEM-452'], compensatedItems: ['ITEM-101'] });
+        const compensations = sqsMock.commandCalls(SendMessageCommand).map(call => call.args[0].input);
+        expect(compensations).toEqual([expect.objectContaining({ QueueUrl: process.env.COMPENSATION_QUEUE_URL })]);
+        expect(JSON.parse(compensations[0].MessageBody!)).toMatchObject({ eventType: 'ItemCompensationRequested', reason: 'ORDER_CANCELLED', itemId: 'ITEM-101' });
+        expect(itemUpdates()[0]).toMatchObject({ Key: { orderId: sampleOrder.orderId, itemId: 'ITEM-101' }, ExpressionAttributeValues: expect.objectContaining({ ':requested': 'REQUESTED' }) });
+        expect(itemUpdates()[1]).toMatchObject({ Key: { orderId: sampleOrder.orderId, itemId: 'ITEM-452' }, ConditionExpression: 'itemStatus = :pending' });
+    });
+
+    it('does not ask for the compensation of an item twice', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({ Items: [{ ...items[0], compensationStatus: 'REQUESTED' }] });
+
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toMatchObject({ compensatedItems: [] });
+        expect(sqsMock.commandCalls(SendMessageCommand)).toHaveLength(0);
+    });
+
+    it('releases the stock the order still holds', async () => {
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toMatchObject({ releasedItems: ['ITEM-101', 'ITEM-452'] });
+        const releases = dynamoDBMock.commandCalls(TransactWriteCommand).map(call => call.args[0].input.TransactItems!.map(action => action.Update!));
+        expect(releases.map(([, inventoryUpdate]) => inventoryUpdate.Key)).toEqual([{ sku: 'SKU-101' }, { sku: 'SKU-452' }]);
+        expect(releases[0][0].ExpressionAttributeValues).toMatchObject({ ':released': 'RELEASED' });
+    });
+
+    it('voids the payment authorization, as a cancelled order is charged nothing', async () => {
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toMatchObject({ paymentTransactions: [expect.objectContaining({ type: 'VOID', amount: 17.25, parentId: 'fake_auth_1' })] });
+        expect(orderUpdates()[1].ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'VOIDED', ':capturedAmount': 0 });
+    });
+
+    it('refuses an order that already finished', async () => {
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' }).rejects(conditionFailed('COMPLETED'));
+
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toEqual({ outcome: 'NOT_CANCELLABLE', orderStatus: 'COMPLETED' });
+        expect(itemUpdates()).toHaveLength(0);
+        expect(dynamoDBMock.commandCalls(TransactWriteCommand)).toHaveLength(0);
+        expect(eventBridgeMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+    });
+
+    it('finishes the items and settles the payment of an order whose earlier cancellation failed part way', async () => {
+        dynamoDBMock.on(UpdateCommand, { TableName: 'OrdersTable' })
+            .rejectsOnce(conditionFailed('CANCELLED'))
+            .resolves({});
+        dynamoDBMock.on(GetCommand, { TableName: 'OrdersTable' }).resolves({ Item: { ...order, orderStatus: 'CANCELLED' } });
+
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toEqual({ outcome: 'NOT_CANCELLABLE', orderStatus: 'CANCELLED' });
+        expect(itemUpdates().map(update => update.Key)).toContainEqual({ orderId: sampleOrder.orderId, itemId: 'ITEM-452' });
+        const stockUpdates = dynamoDBMock.commandCalls(TransactWriteCommand)
+            .map(call => call.args[0].input.TransactItems![1].Update!.Key);
+        expect(stockUpdates).toEqual([{ sku: 'SKU-101' }, { sku: 'SKU-452' }]);
+        expect(orderUpdates()[1].ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'VOIDED' });
+        // the OrderCancelled event was published by the earlier cancellation
+        expect(eventBridgeMock.commandCalls(PutEventsCommand)).toHaveLength(0);
+    });
+
+    it('reports an order that does not exist', async () => {
+        dynamoDBMock.on(QueryCommand, { TableName: 'OrdersTable' }).resolves({ Items: [] });
+
+        const result = await cancelOrder(dynamoDB, sqs, eventBridge, payments, sampleOrder.orderId);
+
+        expect(result).toEqual({ outcome: 'NOT_FOUND' });
+        expect(orderUpdates()).toHaveLength(0);
+    });
+});
@@ -0,0 +1,127 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { mockClient } from 'aws-sdk-client-mock';
+import { EventBridgeClient, PutEventsCommand } from '@aws-sdk/client-eventbridge';
+import {
+    buildDomainEvent,
+    buildItemOutcomeEvent,
+    buildOrderCompletedEvent,
+    DOMAIN_EVENT_VERSIONS,
+    DomainEventType,
+    publishDomainEvents,
+    type DomainEvent
+} from '../../functions/shared/domainEvents';
+import { buildItemMessage, orderTimestamp, sampleOrder } from '../helpers';
+
+const eventBridgeMock = mockClient(EventBridgeClient);
+const eventBridge = new EventBridgeClient({});
+
+const loadSchema = (event: DomainEvent) =>
+    JSON.parse(readFileSync(join(__dirname, '../../schemas/events', `${event.detailType}.v${event.detail.metadata.version}.json`), 'utf8'));
+
+// Only the parts of JSON Schema the event schemas use: required properties, const, enum and nested objects and arrays
+const schemaErrors = (schema: Record<string, any>, value: any, path: string): string[] => {
+    if (schema.const !== undefined && value !== schema.const) {
+        return [`${path} must be ${schema.const}`];
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')}`];
+    }
+    if (schema.type === 'array') {
+        return (value as unknown[]).flatMap((element, index) => schemaErrors(schema.items, element, `${path}[${index}]`));
+    }
+    if (schema.type !== 'object') {
+        return [];
+    }
+    return [
+        ...(schema.required ?? []).filter((name: string) => value[name] === undefined).map((name: string) => `${path}.${name} is required`),
+        ...Object.entries<Record<string, any>>(schema.properties ?? {})
+            .filter(([name]) => value[name] !== undefined)
+            .flatMap(([name, property]) => schemaErrors(property, value[name], `${path}.${name}`))
+    ];
+};
+
+// The event as EventBridge delivers it to subscribers
+const conformsToSchema = (event: DomainEvent): string[] =>
+    schemaErrors(loadSchema(event), { source: 'orders.pipeline', 'detail-type': event.detailType, detail: event.detail }, 'event');
+
+const finishedOrder = {
+    orderId: sampleOrder.orderId,
+    userId: sampleOrder.userId,
+    totalItems: 2,
+    processedItems: 1,
+    failedItems: 1,
+    totalValue: 17.25,
+    correlationId: 'checkout-1234'
+};
+
+describe('domain events', () => {
+    beforeEach(() => {
+        eventBridgeMock.reset();
+    });
+
+    it.each<[string, DomainEvent]>([
+        ['OrderPlaced', buildDomainEvent(DomainEventType.ORDER_PLACED, {
+            orderId: sampleOrder.orderId,
+            userId: sampleOrder.userId,
+            timestamp: orderTimestamp,
+            orderStatus: 'SCHEDULED',
+            priority: 'high',
+            lane: 'express',
+            scheduledFor: '2025-09-12T12:00:00.000Z',
+            totalValue: 17.25,
+            items: [{ itemId: 'ITEM-101', itemDetail: 'Caffè Latte', quantity: 2, price: 4.5 }]
+        }, 'checkout-1234')],
+        ['ItemProcessed', buildItemOutcomeEvent(buildItemMessage('ITEM-101'), 'PROCESSED')],
+        ['ItemFailed', buildItemOutcomeEvent({ ...buildItemMessage('ITEM-678'), sku: 'SKU-678' }, 'OUT_OF_STOCK')],
+        ['OrderCompleted', buildOrderCompletedEvent({ previousStatus: 'PROCESSING', orderStatus: 'PARTIALLY_FAILED', order: finishedOrder })!],
+        ['OrderCancelled', buildDomainEvent(DomainEventType.ORDER_CANCELLED, {
+            orderId: sampleOrder.orderId,
+            userId: sampleOrder.userId,
+            previousStatus: 'PROCESSING',
+            cancelledItems: ['ITEM-452'],
+            compensatedItems: ['ITEM-101']
+        })]
+    ])('builds %s events that match their published schema', (detailType, event) => {
+        expect(event.detailType).toBe(detailType);
+        expect(event.detail.metadata.version).toBe(DOMAIN_EVENT_VERSIONS[event.detailType]);
+        expect(conformsToSchema(event)).toEqual([]);
+    });
+
+    it('keeps the item attributes that are not part of the schemas out of item events', () => {
+        const event = buildItemOutcomeEvent(buildItemMessage('ITEM-101'), 'PROCESSED', 'checkout-1234');
+
+        expect(event.detail).toEqual({
+            metadata: { eventId: expect.any(String), version: 1, occurredAt: expect.any(String), correlationId: 'checkout-1234' },
+            data: { orderId: sampleOrder.orderId, itemId: 'ITEM-101', itemDetail: 'Caffè Latte', quantity: 2, price: 4.5 }
+        });
+    });
+
+    it('only reports OrderCompleted for orders that reached a final status', () => {
+        expect(buildOrderCompletedEvent({ previousStatus: 'PENDING', orderStatus: 'PROCESSING', order: finishedOrder })).toBeUndefined();
+        expect(buildOrderCompletedEvent(undefined)).toBeUndefined();
+    });
+
+    it('publishes the events to the order events bus in batches of 10', async () => {
+        eventBridgeMock.on(PutEventsCommand).resolves({ FailedEntryCount: 0 });
+        const events = Array.from({ length: 12 }, (_, index) => buildItemOutcomeEvent(buildItemMessage(`ITEM-${index}`), 'PROCESSED'));
+
+        await publishDomainEvents(eventBridge, events);
+
+        const requests = eventBridgeMock.commandCalls(PutEventsCommand).map(call => call.args[0].input.Entries!);
+        expect(requests.map(entries => entries.length)).toEqual([10, 2]);
+        expect(requests[0][0]).toMatchObject({ EventBusName: 'order-events', Source: 'orders.pipeline', DetailType: 'ItemProcessed' });
+        expect(JSON.parse(requests[0][0].Detail!)).toEqual(events[0].detail);
+    });
+
+    it('throws when an event is not accepted, so the caller can retry', async () => {
+        eventBridgeMock.on(PutEventsCommand).resolves({
+            FailedEntryCount: 1,
+            Entries: [{ EventId: 'event-1' }, { ErrorCode: 'InternalFailure', ErrorMessage: 'Try again' }]
+        });
+        const events = [buildItemOutcomeEvent(buildItemMessage('ITEM-101'), 'PROCESSED'), buildItemOutcomeEvent(buildItemMessage('ITEM-452'), 'FAILED')];
+
+        await expect(publishDomainEvents(eventBridge, events))
+            .rejects.toThrow(`Failed to publish events ItemFailed ${events[1].detail.metadata.eventId} (InternalFailure: Try again)`);
+    });
+});
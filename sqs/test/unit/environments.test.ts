@@ -0,0 +1,47 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import * as cdk from 'aws-cdk-lib';
+import { environmentStackProps } from '../../lib/environments';
+
+// the environments as they are shipped in cdk.json
+const context = JSON.parse(readFileSync(join(__dirname, '../../cdk.json'), 'utf8')).context;
+const app = new cdk.App({ context });
+
+describe('environmentStackProps', () => {
+    it.each(['dev', 'staging', 'prod'])('gives %s its own resource names, sender and API stage', (name) => {
+        const props = environmentStackProps(app, name);
+
+        expect(props.namePrefix).toBe(`${name}-`);
+        expect(props.notificationSender).toBe(`orders-${name}@localstack.cloud`);
+        expect(props.apiStageName).toBe(name);
+        expect(props.tags).toEqual({ environment: name });
+    });
+
+    it('keeps the prod data and encrypts it with KMS', () => {
+        const props = environmentStackProps(app, 'prod');
+
+        expect(props.removalPolicy).toBe(cdk.RemovalPolicy.RETAIN);
+        expect(props.pointInTimeRecovery).toBe(true);
+        expect(props.kmsEncryption).toBe(true);
+        expect(props.lanes?.standard?.maxReceiveCount).toBe(5);
+    });
+
+    it.each(['standard', 'express'] as const)('gives the prod %s lane a visibility timeout that covers its OrderProcessor', (lane) => {
+        const settings = environmentStackProps(app, 'prod').lanes?.[lane];
+
+        // messages must stay hidden for at least as long as the OrderProcessor can run
+        expect(settings?.visibilityTimeout?.toSeconds()).toBeGreaterThanOrEqual(settings!.processorTimeout!.toSeconds());
+    });
+
+    it('sets concurrency aside for the prod express lane', () => {
+        expect(environmentStackProps(app, 'prod').lanes?.express?.reservedConcurrency).toBe(10);
+    });
+
+    it('destroys the dev data with the stack', () => {
+        expect(environmentStackProps(app, 'dev').removalPolicy).toBe(cdk.RemovalPolicy.DESTROY);
+    });
+
+    it('rejects environments that are not in cdk.json', () => {
+        expect(() => environmentStackProps(app, 'qa')).toThrow("Unknown environment 'qa', cdk.json defines: dev, staging, prod");
+    });
+});
@@ -0,0 +1,186 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { SSMClient, GetParameterCommand, ParameterNotFound } from '@aws-sdk/client-ssm';
+import {
+    DEFAULT_FAILURE_RULES,
+    injectFailures,
+    loadFailureRules,
+    SimulatedFailureError,
+    type FailureRule,
+    type FailureTarget
+} from '../../functions/OrderProcessor/failureInjection';
+import { buildItemMessage, buildSqsRecord } from '../helpers';
+
+const ssmMock = mockClient(SSMClient);
+
+const buildTarget = (itemId: string, attempt = 1): FailureTarget => ({
+    orderId: 'ORD-TEST-001',
+    itemId,
+    itemDetail: 'Caffè Latte',
+    attempt,
+    remainingTimeInMillis: 5000
+});
+
+const outcomeOf = (rules: FailureRule[], target: FailureTarget) =>
+    injectFailures(rules, target).then(() => 'SUCCEEDED', error => (error instanceof SimulatedFailureError ? 'FAILED' : error));
+
+const recordWithRules = (rules?: unknown) => {
+    const record = buildSqsRecord(buildItemMessage('ITEM-101'));
+    if (rules !== undefined) {
+        record.messageAttributes = { FailureRules: { dataType: 'String', stringValue: typeof rules === 'string' ? rules : JSON.stringify(rules) } };
+    }
+    return record;
+};
+
+const messageRules: FailureRule[] = [{ name: 'from-message', match: {}, mode: 'always' }];
+const parameterRules: FailureRule[] = [{ name: 'from-parameter', match: {}, mode: 'always' }];
+const environmentRules: FailureRule[] = [{ name: 'from-environment', match: {}, mode: 'always' }];
+
+describe('injectFailures', () => {
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('always fails the items an always rule matches', async () => {
+        const rules: FailureRule[] = [{ match: { itemId: '3$' }, mode: 'always' }];
+
+        expect(await outcomeOf(rules, buildTarget('ITEM-223', 5))).toBe('FAILED');
+        expect(await outcomeOf(rules, buildTarget('ITEM-101'))).toBe('SUCCEEDED');
+    });
+
+    it('only applies a rule when every pattern it sets matches', async () => {
+        const rules: FailureRule[] = [{ match: { orderId: '^ORD-TEST', itemDetail: 'Espresso' }, mode: 'always' }];
+
+        expect(await outcomeOf(rules, buildTarget('ITEM-101'))).toBe('SUCCEEDED');
+        expect(await outcomeOf(rules, { ...buildTarget('ITEM-101'), itemDetail: 'Espresso' })).toBe('FAILED');
+    });
+
+    it('fails the first n attempts and lets the retry after them succeed', async () => {
+        const rules: FailureRule[] = [{ match: {}, mode: 'first-n-attempts', attempts: 2 }];
+
+        const outcomes = await Promise.all([1, 2, 3].map(attempt => outcomeOf(rules, buildTarget('ITEM-101', attempt))));
+
+        expect(outcomes).toEqual(['FAILED', 'FAILED', 'SUCCEEDED']);
+    });
+
+    it('fails with the given probability, the same way for the same seed, item and attempt', async () => {
+        const rules: FailureRule[] = [{ match: {}, mode: 'probability', probability: 0.5, seed: 'chaos-1' }];
+        const run = () => Promise.all(Array.from({ length: 20 }, (_, index) => outcomeOf(rules, buildTarget('ITEM-101', index + 1))));
+
+        const outcomes = await run();
+
+        expect(await run()).toEqual(outcomes);
+        expect(outcomes).toContain('FAILED');
+        expect(outcomes).toContain('SUCCEEDED');
+        expect(await outcomeOf([{ ...rules[0], probability: 1 }], buildTarget('ITEM-101'))).toBe('FAILED');
+        expect(await outcomeOf([{ ...rules[0], probability: 0 }], buildTarget('ITEM-101'))).toBe('SUCCEEDED');
+    });
+
+    it('delays processing by the latency of a latency rule', async () => {
+        jest.useFakeTimers();
+        const settled = jest.fn();
+
+        injectFailures([{ match: {}, mode: 'latency', latencyMs: 1000 }], buildTarget('ITEM-101')).then(settled);
+        await jest.advanceTimersByTimeAsync(999);
+        expect(settled).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(settled).toHaveBeenCalled();
+    });
+
+    it('waits out the rest of the invocation before failing a timeout rule', async () => {
+        jest.useFakeTimers();
+        const outcome = outcomeOf([{ match: {}, mode: 'timeout' }], buildTarget('ITEM-101'));
+        const settled = jest.fn();
+        outcome.then(settled);
+
+        await jest.advanceTimersByTimeAsync(5999);
+        expect(settled).not.toHaveBeenCalled();
+        await jest.advanceTimersByTimeAsync(1);
+
+        expect(await outcome).toBe('FAILED');
+    });
+
+    it('fails items ending in 3 on every attempt and items ending in 1 on their first attempt by default', async () => {
+        expect(await outcomeOf(DEFAULT_FAILURE_RULES, buildTarget('ITEM-223', 3))).toBe('FAILED');
+        expect(await outcomeOf(DEFAULT_FAILURE_RULES, buildTarget('ITEM-101', 1))).toBe('FAILED');
+        expect(await outcomeOf(DEFAULT_FAILURE_RULES, buildTarget('ITEM-101', 2))).toBe('SUCCEEDED');
+        expect(await outcomeOf(DEFAULT_FAILURE_RULES, buildTarget('ITEM-452', 1))).toBe('SUCCEEDED');
+    });
+});
+
+describe('loadFailureRules', () => {
+    // the parameter is cached for 30 seconds, so every test starts a minute after the previous one
+    let now = Date.parse('2025-09-12T12:00:00.000Z');
+
+    beforeEach(() => {
+        now += 60 * 1000;
+        jest.useFakeTimers({ now });
+        ssmMock.reset();
+        ssmMock.on(GetParameterCommand, { Name: 'failure-rules' }).resolves({ Parameter: { Value: JSON.stringify(parameterRules) } });
+        process.env.FAILURE_RULES_PARAMETER = 'failure-rules';
+        process.env.FAILURE_RULES = JSON.stringify(environmentRules);
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        delete process.env.FAILURE_RULES_PARAMETER;
+        delete process.env.FAILURE_RULES;
+    });
+
+    it('takes the rules of the message attribute first', async () => {
+        expect(await loadFailureRules(recordWithRules(messageRules))).toEqual(messageRules);
+    });
+
+    it('takes the rules of the SSM parameter when the message has none', async () => {
+        expect(await loadFailureRules(recordWithRules())).toEqual(parameterRules);
+        expect(ssmMock.commandCalls(GetParameterCommand)).toHaveLength(1);
+    });
+
+    it('takes the rules of the environment variable when the parameter does not exist', async () => {
+        ssmMock.on(GetParameterCommand).rejects(new ParameterNotFound({ message: 'Parameter not found', $metadata: {} }));
+
+        expect(await loadFailureRules(recordWithRules())).toEqual(environmentRules);
+    });
+
+    it('falls back to the default rules when no source sets any', async () => {
+        delete process.env.FAILURE_RULES_PARAMETER;
+        delete process.env.FAILURE_RULES;
+
+        expect(await loadFailureRules(recordWithRules())).toEqual(DEFAULT_FAILURE_RULES);
+        expect(ssmMock.commandCalls(GetParameterCommand)).toHaveLength(0);
+    });
+
+    it.each([
+        ['not JSON', '{always'],
+        ['not a list of rules', { match: {}, mode: 'always' }],
+        ['of an unknown mode', [{ match: {}, mode: 'sometimes' }]],
+        ['matched with an invalid pattern', [{ match: { itemId: '[' }, mode: 'always' }]],
+        ['given a probability above 1', [{ match: {}, mode: 'probability', probability: 1.5 }]],
+        ['given a negative latency', [{ match: {}, mode: 'latency', latencyMs: -1 }]],
+        ['given a fractional number of attempts', [{ match: {}, mode: 'first-n-attempts', attempts: 1.5 }]]
+    ])('skips rules that are %s and uses the next source', async (_, rules) => {
+        expect(await loadFailureRules(recordWithRules(rules))).toEqual(parameterRules);
+    });
+
+    it('uses the next source when a rule of the SSM parameter is malformed, rather than failing every item', async () => {
+        ssmMock.on(GetParameterCommand, { Name: 'failure-rules' })
+            .resolves({ Parameter: { Value: JSON.stringify([...parameterRules, { match: { itemDetail: '[' }, mode: 'always' }]) } });
+        delete process.env.FAILURE_RULES;
+
+        const rules = await loadFailureRules(recordWithRules());
+
+        expect(rules).toEqual(DEFAULT_FAILURE_RULES);
+        expect(await outcomeOf(rules, buildTarget('ITEM-452'))).toBe('SUCCEEDED');
+    });
+
+    it('caches the rules of the parameter for 30 seconds', async () => {
+        await loadFailureRules(recordWithRules());
+        jest.setSystemTime(now + 29 * 1000);
+        await loadFailureRules(recordWithRules());
+        expect(ssmMock.commandCalls(GetParameterCommand)).toHaveLength(1);
+
+        jest.setSystemTime(now + 31 * 1000);
+        await loadFailureRules(recordWithRules());
+        expect(ssmMock.commandCalls(GetParameterCommand)).toHaveLength(2);
+    });
+});
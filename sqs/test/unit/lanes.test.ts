@@ -0,0 +1,23 @@
+import { laneOf, loadPriorityLanes } from '../../functions/shared/lanes';
+
+describe('loadPriorityLanes', () => {
+    it('sends high priority orders to the express lane by default', () => {
+        expect(loadPriorityLanes(undefined)).toEqual({ high: 'express', normal: 'standard', low: 'standard' });
+    });
+
+    it('keeps the default lane of priorities the rules leave out', () => {
+        expect(loadPriorityLanes('{"normal":"express"}')).toEqual({ high: 'express', normal: 'express', low: 'standard' });
+    });
+
+    it('rejects unknown priorities and lanes', () => {
+        expect(() => loadPriorityLanes('{"urgent":"express"}')).toThrow('Invalid priority lane urgent: express');
+        expect(() => loadPriorityLanes('{"high":"overnight"}')).toThrow('Invalid priority lane high: overnight');
+    });
+});
+
+describe('laneOf', () => {
+    it('puts items stored before lanes were introduced in the standard lane', () => {
+        expect(laneOf({})).toBe('standard');
+        expect(laneOf({ lane: 'express' })).toBe('express');
+    });
+});
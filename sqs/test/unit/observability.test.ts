@@ -0,0 +1,79 @@
+import { Metrics, MetricUnit } from '@aws-lambda-powertools/metrics';
+import type { Tracer } from '@aws-lambda-powertools/tracer';
+import { instrumentHandler } from '../../functions/shared/observability';
+import { buildContext } from '../helpers';
+
+// records what the wrapper does with the trace, so the handler's subsegment can be checked without X-Ray
+const buildTracer = () => {
+    const subsegment = { close: jest.fn() };
+    const segment = { addNewSubsegment: jest.fn().mockReturnValue(subsegment) };
+    const tracer = {
+        getSegment: jest.fn().mockReturnValue(segment),
+        setSegment: jest.fn(),
+        annotateColdStart: jest.fn(),
+        addServiceNameAnnotation: jest.fn(),
+        addErrorAsMetadata: jest.fn()
+    };
+    return { tracer, segment, subsegment };
+};
+
+describe('instrumentHandler', () => {
+    let metrics: Metrics;
+    let publishStoredMetrics: jest.SpyInstance;
+
+    beforeEach(() => {
+        metrics = new Metrics({ namespace: 'test', serviceName: 'test' });
+        publishStoredMetrics = jest.spyOn(metrics, 'publishStoredMetrics');
+    });
+
+    it('runs the handler in its own annotated subsegment and publishes the metrics it added', async () => {
+        const { tracer, segment, subsegment } = buildTracer();
+        const handler = instrumentHandler(tracer as unknown as Tracer, metrics, async (event: { value: number }) => {
+            metrics.addMetric('Handled', MetricUnit.Count, 1);
+            return event.value * 2;
+        });
+
+        await expect(handler({ value: 21 }, buildContext())).resolves.toBe(42);
+
+        expect(segment.addNewSubsegment).toHaveBeenCalledWith('## test-function');
+        expect(tracer.setSegment.mock.calls).toEqual([[subsegment], [segment]]);
+        expect(tracer.annotateColdStart).toHaveBeenCalled();
+        expect(tracer.addServiceNameAnnotation).toHaveBeenCalled();
+        expect(subsegment.close).toHaveBeenCalled();
+        expect(publishStoredMetrics).toHaveBeenCalledTimes(1);
+    });
+
+    it('publishes nothing when the handler added no metrics', async () => {
+        const { tracer } = buildTracer();
+        const handler = instrumentHandler(tracer as unknown as Tracer, metrics, async () => 'done');
+
+        await handler({}, buildContext());
+
+        expect(publishStoredMetrics).not.toHaveBeenCalled();
+    });
+
+    it('records the error of a failed handler, closes its subsegment and still publishes its metrics before rethrowing', async () => {
+        const { tracer, segment, subsegment } = buildTracer();
+        const error = new Error('Throughput exceeded');
+        const handler = instrumentHandler(tracer as unknown as Tracer, metrics, async () => {
+            metrics.addMetric('Handled', MetricUnit.Count, 1);
+            throw error;
+        });
+
+        await expect(handler({}, buildContext())).rejects.toBe(error);
+
+        expect(tracer.addErrorAsMetadata).toHaveBeenCalledWith(error);
+        expect(subsegment.close).toHaveBeenCalled();
+        expect(tracer.setSegment).toHaveBeenLastCalledWith(segment);
+        expect(publishStoredMetrics).toHaveBeenCalledTimes(1);
+    });
+
+    it('runs the handler when there is no segment to trace it in', async () => {
+        const { tracer } = buildTracer();
+        tracer.getSegment.mockReturnValue(undefined);
+        const handler = instrumentHandler(tracer as unknown as Tracer, metrics, async () => 'done');
+
+        await expect(handler({}, buildContext())).resolves.toBe('done');
+        expect(tracer.setSegment).not.toHaveBeenCalled();
+    });
+});
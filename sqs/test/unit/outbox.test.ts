@@ -0,0 +1,19 @@
+import { buildDeduplicationId } from '../../functions/shared/outbox';
+
+describe('buildDeduplicationId', () => {
+    it('gives every redrive generation of an item its own id', () => {
+        expect(buildDeduplicationId('ORD-1', 'ITEM-101', 0)).toBe('ORD-1#ITEM-101#0');
+        expect(buildDeduplicationId('ORD-1', 'ITEM-101', 1)).toBe('ORD-1#ITEM-101#1');
+    });
+
+    it('keeps ids that contain colons apart', () => {
+        expect(buildDeduplicationId('A:B', 'C', 0)).not.toBe(buildDeduplicationId('A', 'B:C', 0));
+    });
+
+    it('hashes ids that are longer than SQS accepts', () => {
+        const deduplicationId = buildDeduplicationId('O'.repeat(64), 'I'.repeat(64), 0);
+
+        expect(deduplicationId).toMatch(/^[0-9a-f]{64}$/);
+        expect(deduplicationId).not.toBe(buildDeduplicationId('O'.repeat(64), 'I'.repeat(64), 1));
+    });
+});
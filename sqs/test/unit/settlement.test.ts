@@ -0,0 +1,112 @@
+import { mockClient } from 'aws-sdk-client-mock';
+import { ConditionalCheckFailedException, DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { FakePaymentProvider } from '../../functions/shared/payments';
+import { settleOrderPayment, type PaymentTransaction } from '../../functions/shared/settlement';
+import { orderTimestamp, sampleOrder } from '../helpers';
+
+const dynamoDBMock = mockClient(DynamoDBDocumentClient);
+const dynamoDB = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+const payments = new FakePaymentProvider(50000);
+
+// the sample order is worth 17.25: ITEM-101 is 2 x 4.50 and ITEM-452 is 3 x 2.75
+const authorization: PaymentTransaction = {
+    type: 'AUTHORIZATION',
+    transactionId: 'fake_auth_1',
+    amount: 17.25,
+    createdAt: orderTimestamp
+};
+
+const buildOrder = (orderStatus: string, paymentTransactions: PaymentTransaction[] = [authorization]) => ({
+    orderId: sampleOrder.orderId,
+    userId: sampleOrder.userId,
+    timestamp: orderTimestamp,
+    orderStatus,
+    paymentStatus: 'AUTHORIZED',
+    paymentTransactions
+});
+
+const givenItems = (lattesStatus: string, espressosStatus: string) =>
+    dynamoDBMock.on(QueryCommand, { TableName: 'OrderItemsTable' }).resolves({
+        Items: [
+            { itemId: 'ITEM-101', itemStatus: lattesStatus, quantity: 2, price: 4.5 },
+            { itemId: 'ITEM-452', itemStatus: espressosStatus, quantity: 3, price: 2.75 }
+        ]
+    });
+
+const storedUpdate = () => dynamoDBMock.commandCalls(UpdateCommand, { TableName: 'OrdersTable' })[0].args[0].input;
+
+describe('settleOrderPayment', () => {
+    beforeEach(() => {
+        dynamoDBMock.reset();
+        dynamoDBMock.on(UpdateCommand).resolves({});
+    });
+
+    it('captures the processed items and voids the rest of the authorization', async () => {
+        givenItems('PROCESSED', 'FAILED');
+
+        const transactions = await settleOrderPayment(dynamoDB, payments, buildOrder('PARTIALLY_FAILED'));
+
+        expect(transactions).toEqual([
+            expect.objectContaining({ type: 'CAPTURE', amount: 9, parentId: 'fake_auth_1' }),
+            expect.objectContaining({ type: 'VOID', amount: 8.25, parentId: 'fake_auth_1' })
+        ]);
+        expect(storedUpdate().ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'CAPTURED', ':capturedAmount': 9, ':count': 1 });
+    });
+
+    it('voids the whole authorization of a FAILED order', async () => {
+        givenItems('FAILED', 'OUT_OF_STOCK');
+
+        const transactions = await settleOrderPayment(dynamoDB, payments, buildOrder('FAILED'));
+
+        expect(transactions).toEqual([expect.objectContaining({ type: 'VOID', amount: 17.25 })]);
+        expect(storedUpdate().ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'VOIDED', ':capturedAmount': 0 });
+    });
+
+    it('refunds what was captured when a redriven order is cancelled', async () => {
+        givenItems('PROCESSED', 'PROCESSED');
+        const settled: PaymentTransaction[] = [
+            authorization,
+            { type: 'CAPTURE', transactionId: 'fake_cap_1', amount: 9, parentId: 'fake_auth_1', createdAt: orderTimestamp },
+            { type: 'VOID', transactionId: 'fake_void_1', amount: 8.25, parentId: 'fake_auth_1', createdAt: orderTimestamp }
+        ];
+
+        const transactions = await settleOrderPayment(dynamoDB, payments, buildOrder('CANCELLED', settled));
+
+        expect(transactions).toEqual([expect.objectContaining({ type: 'REFUND', amount: 9, parentId: 'fake_cap_1' })]);
+        expect(storedUpdate().ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'REFUNDED', ':count': 3 });
+    });
+
+    it('authorizes the difference again when a redriven item is processed after the order was settled', async () => {
+        givenItems('PROCESSED', 'PROCESSED');
+        const settled: PaymentTransaction[] = [
+            authorization,
+            { type: 'CAPTURE', transactionId: 'fake_cap_1', amount: 9, parentId: 'fake_auth_1', createdAt: orderTimestamp },
+            { type: 'VOID', transactionId: 'fake_void_1', amount: 8.25, parentId: 'fake_auth_1', createdAt: orderTimestamp }
+        ];
+
+        const transactions = await settleOrderPayment(dynamoDB, payments, buildOrder('COMPLETED', settled));
+
+        expect(transactions).toEqual([
+            expect.objectContaining({ type: 'AUTHORIZATION', amount: 8.25 }),
+            expect.objectContaining({ type: 'CAPTURE', amount: 8.25, parentId: transactions[0].transactionId })
+        ]);
+        expect(storedUpdate().ExpressionAttributeValues).toMatchObject({ ':paymentStatus': 'CAPTURED', ':capturedAmount': 17.25 });
+    });
+
+    it('does nothing for orders that are still in progress', async () => {
+        const transactions = await settleOrderPayment(dynamoDB, payments, buildOrder('PROCESSING'));
+
+        expect(transactions).toEqual([]);
+        expect(dynamoDBMock.commandCalls(UpdateCommand)).toHaveLength(0);
+    });
+
+    it('leaves the order to a concurrent settlement that stored its transactions first', async () => {
+        givenItems('PROCESSED', 'PROCESSED');
+        dynamoDBMock.on(UpdateCommand).rejects(new ConditionalCheckFailedException({ message: 'The conditional request failed', $metadata: {} }));
+
+        const transactions = await settleOrderPayment(dynamoDB, payments, buildOrder('COMPLETED'));
+
+        expect(transactions).toEqual([]);
+    });
+});